@@ -0,0 +1,963 @@
+// Renders the Git Stats dashboard from the data posted by DashboardPanel.
+(function () {
+    'use strict';
+
+    const vscode = acquireVsCodeApi();
+    const svgNamespace = 'http://www.w3.org/2000/svg';
+    const palette = ['blue', 'green', 'orange', 'purple', 'red', 'yellow'].map(name => `var(--vscode-charts-${name})`);
+
+    /** Sort state per table id, kept across refreshes and reloads */
+    const sortState = (vscode.getState() && vscode.getState().sortState) || {};
+    let lastData = null;
+    /** Line count history per folder index, loaded on demand */
+    const trendState = {};
+    /** Blame ownership per folder index, loaded on demand */
+    const ownershipState = {};
+    /** Commit activity per folder index, loaded on demand */
+    const activityState = {};
+    /** Result of the Compare Refs command, shown above the folders until closed */
+    let comparison = null;
+    const weekdays = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+    const content = document.getElementById('content');
+    const generatedAt = document.getElementById('generated-at');
+
+    document.getElementById('refresh').addEventListener('click', () => {
+        vscode.postMessage({ type: 'refresh' });
+    });
+
+    window.addEventListener('message', event => {
+        const message = event.data;
+        if (message.type === 'update') {
+            lastData = message.data;
+            render(message.data);
+        } else if (message.type === 'trend') {
+            const state = trendState[message.folder] || (trendState[message.folder] = {});
+            state.loading = false;
+            state.trend = message.trend;
+            state.error = message.error;
+            if (lastData) {
+                render(lastData);
+            }
+        } else if (message.type === 'ownership') {
+            const state = ownershipState[message.folder] || (ownershipState[message.folder] = {});
+            state.loading = false;
+            state.ownership = message.ownership;
+            state.error = message.error;
+            if (lastData) {
+                render(lastData);
+            }
+        } else if (message.type === 'activity') {
+            const state = activityState[message.folder] || (activityState[message.folder] = {});
+            state.loading = false;
+            state.activity = message.activity;
+            state.error = message.error;
+            if (lastData) {
+                render(lastData);
+            }
+        } else if (message.type === 'comparison') {
+            comparison = message.comparison;
+            if (lastData) {
+                render(lastData);
+            }
+            window.scrollTo(0, 0);
+        } else if (message.type === 'show') {
+            if (lastData) {
+                const loaders = { history: loadTrend, ownership: loadOwnership, activity: loadActivity };
+                const load = loaders[message.section];
+                lastData.folders.forEach((folder, index) => load(index));
+                const target = document.querySelector(`.${message.section}`);
+                if (target) {
+                    target.scrollIntoView();
+                }
+            }
+        } else if (message.type === 'error') {
+            content.replaceChildren(element('p', 'error', `Error: ${message.message}`));
+        }
+    });
+
+    vscode.postMessage({ type: 'ready' });
+
+    function render(data) {
+        generatedAt.textContent = `Updated ${data.generatedAt}`;
+        const sections = [];
+
+        if (comparison) {
+            sections.push(renderComparison(comparison));
+        }
+
+        if (data.combined) {
+            sections.push(renderCombined(data.combined));
+        }
+
+        data.folders.forEach((folder, index) => {
+            sections.push(renderFolder(folder, index, data.folders.length > 1));
+        });
+
+        content.replaceChildren(...sections);
+    }
+
+    function renderCombined(combined) {
+        const section = element('section');
+        section.append(element('h2', undefined, 'All Workspace Folders'));
+        section.append(cards([
+            ['Total Lines', formatNumber(combined.totalLines)],
+            ['Total Files', formatNumber(combined.fileCount)],
+            ['Branch Changes', `+${formatNumber(combined.changes.branchAdditions)} / -${formatNumber(combined.changes.branchDeletions)}`],
+            ['Uncommitted', `+${formatNumber(combined.changes.workingAdditions + combined.changes.untrackedLines)} / -${formatNumber(combined.changes.workingDeletions)}`]
+        ]));
+        section.append(split(
+            barChart(combined.folders.map(folder => ({ label: folder.name, value: folder.lines }))),
+            sortableTable('combined', [
+                { key: 'name', label: 'Folder' },
+                { key: 'count', label: 'Files', numeric: true },
+                { key: 'lines', label: 'Lines', numeric: true },
+                { key: 'percentage', label: '%', numeric: true, format: formatPercentage }
+            ], combined.folders)
+        ));
+        return section;
+    }
+
+    function renderComparison(result) {
+        const section = element('section', 'comparison');
+        const range = `${result.from.ref}${result.notation}${result.to.ref}`;
+        section.append(element('h2', undefined, `Comparison ${range}`));
+
+        const controls = element('div', 'controls');
+        const compare = element('button', undefined, 'Compare other refs');
+        compare.addEventListener('click', () => vscode.postMessage({ type: 'compareRefs' }));
+        const close = element('button', undefined, 'Close');
+        close.addEventListener('click', () => {
+            comparison = null;
+            vscode.postMessage({ type: 'closeComparison' });
+            if (lastData) {
+                render(lastData);
+            }
+        });
+        controls.append(compare, close);
+        section.append(controls);
+
+        section.append(element('p', 'muted', result.notation === '...'
+            ? `${result.folder}: changes on ${result.to.ref} since it diverged from ${result.from.ref} at ${result.mergeBase.slice(0, 8)}`
+            : `${result.folder}: every difference between the trees of ${result.from.ref} and ${result.to.ref}`));
+        section.append(cards([
+            ['Added', `+${formatNumber(result.additions)}`, 'additions'],
+            ['Removed', `-${formatNumber(result.deletions)}`, 'deletions'],
+            ['Net', formatNumber(result.additions - result.deletions)],
+            ['Files Changed', formatNumber(result.changedFiles)],
+            [`Commits Only in ${truncate(result.to.ref, 20)}`, formatNumber(result.commitsAhead)],
+            [`Commits Only in ${truncate(result.from.ref, 20)}`, formatNumber(result.commitsBehind)],
+            ['Excluded Churn', formatNumber(result.excludedChurn)]
+        ]));
+
+        // Line count totals at both refs
+        section.append(element('h3', undefined, 'Line Count at Each Ref'));
+        section.append(sortableTable('comparison-refs', [
+            { key: 'ref', label: 'Ref' },
+            { key: 'commit', label: 'Commit', format: value => value.slice(0, 8) },
+            { key: 'files', label: 'Files', numeric: true },
+            { key: 'lines', label: 'Lines', numeric: true },
+            { key: 'code', label: 'Code', numeric: true },
+            { key: 'comment', label: 'Comments', numeric: true },
+            { key: 'blank', label: 'Blank', numeric: true }
+        ], [result.from, result.to]));
+
+        const groupColumns = label => [
+            { key: 'name', label },
+            { key: 'changedFiles', label: 'Files Changed', numeric: true },
+            { key: 'additions', label: 'Added', numeric: true },
+            { key: 'deletions', label: 'Removed', numeric: true },
+            { key: 'linesFrom', label: `Lines at ${truncate(result.from.ref, 20)}`, numeric: true },
+            { key: 'linesTo', label: `Lines at ${truncate(result.to.ref, 20)}`, numeric: true },
+            { key: 'net', label: 'Net Lines', numeric: true }
+        ];
+        const withNet = groups => groups.map(group => ({ ...group, net: group.linesTo - group.linesFrom }));
+        const churn = group => group.additions + group.deletions;
+
+        section.append(element('h3', undefined, 'Changes by Language'));
+        section.append(split(
+            barChart(result.languages.filter(churn).slice(0, 10).map(language => ({ label: language.name, value: churn(language) }))),
+            sortableTable('comparison-languages', groupColumns('Language'), withNet(result.languages))
+        ));
+
+        section.append(element('h3', undefined, 'Changes by Directory'));
+        section.append(split(
+            barChart(result.directories.filter(churn).slice(0, 10).map(dir => ({ label: dir.name, value: churn(dir) }))),
+            sortableTable('comparison-directories', groupColumns('Directory'), withNet(result.directories))
+        ));
+
+        section.append(element('h3', undefined, 'Changed Files'));
+        if (result.files.length < result.changedFiles) {
+            section.append(element('p', 'muted', `The ${formatNumber(result.files.length)} most changed of ${formatNumber(result.changedFiles)} files.`));
+        }
+        const optionalNumber = value => value === null ? '-' : formatNumber(value);
+        section.append(sortableTable('comparison-files', [
+            { key: 'path', label: 'File' },
+            { key: 'additions', label: 'Added', numeric: true },
+            { key: 'deletions', label: 'Removed', numeric: true },
+            { key: 'linesFrom', label: `Lines at ${truncate(result.from.ref, 20)}`, numeric: true, format: optionalNumber },
+            { key: 'linesTo', label: `Lines at ${truncate(result.to.ref, 20)}`, numeric: true, format: optionalNumber }
+        ], result.files));
+
+        return section;
+    }
+
+    function renderFolder(folder, index, showName) {
+        const section = element('section');
+        if (showName) {
+            section.append(element('h2', undefined, folder.name));
+        }
+
+        // Repository information
+        section.append(element('h3', undefined, 'Repository Information'));
+        const info = [['Workspace', folder.name]];
+        if (folder.branch) {
+            info.push(['Current Branch', folder.branch], ['Main Branch', folder.isMainBranch ? 'Yes' : 'No']);
+            if (folder.comparisonBase) {
+                info.push(['Compared Against', folder.comparisonBase]);
+                info.push(['Ahead / Behind Base', `↑${formatNumber(folder.commitsAhead)} ↓${formatNumber(folder.commitsBehind)}`]);
+            }
+            if (folder.upstream) {
+                info.push(['Upstream', folder.upstream]);
+                info.push(['Ahead / Behind Upstream', `↑${formatNumber(folder.upstreamAhead)} ↓${formatNumber(folder.upstreamBehind)}`]);
+            }
+        }
+        if (folder.repository) {
+            info.push(
+                ['Repository Age', `${formatNumber(folder.repository.ageInDays)} days`],
+                ['First Commit', folder.repository.firstCommitDate],
+                ['Total Commits', formatNumber(folder.repository.totalCommits)],
+                ['Contributors', formatNumber(folder.repository.contributors)]
+            );
+        }
+        section.append(cards(info));
+        section.append(element('p', 'muted', folder.rootPath));
+        if (folder.changes && folder.changes.repositoryRoot !== folder.rootPath) {
+            section.append(element('p', 'muted', `Subdirectory of the repository at ${folder.changes.repositoryRoot}`));
+        }
+        if (folder.changes && folder.changes.mainWorktree) {
+            section.append(element('p', 'muted', `Linked worktree of ${folder.changes.mainWorktree}`));
+        }
+
+        // Overall statistics
+        section.append(element('h3', undefined, 'Overall Statistics'));
+        section.append(cards([
+            ['Total Lines', formatNumber(folder.overview.totalLines)],
+            ['Code Lines', formatNumber(folder.overview.codeLines)],
+            ['Comment Lines', formatNumber(folder.overview.commentLines)],
+            ['Blank Lines', formatNumber(folder.overview.blankLines)],
+            ['Total Files', formatNumber(folder.overview.fileCount)],
+            ['Average Lines/File', formatNumber(folder.overview.averageLines)],
+            ['Median Lines/File', formatNumber(folder.overview.medianLines)],
+            ['Std Deviation', formatNumber(folder.overview.stdDeviation)]
+        ]));
+
+        // Largest files
+        section.append(element('h3', undefined, 'Largest Files'));
+        section.append(sortableTable(`files-${index}`, [
+            { key: 'path', label: 'File' },
+            { key: 'language', label: 'Language' },
+            { key: 'lines', label: 'Lines', numeric: true },
+            { key: 'code', label: 'Code', numeric: true },
+            { key: 'comment', label: 'Comments', numeric: true },
+            { key: 'blank', label: 'Blank', numeric: true },
+            { key: 'percentage', label: '%', numeric: true, format: formatPercentage }
+        ], folder.largestFiles, row => openFile(index, row.path), row => ownersTooltip(index, row.path)));
+
+        // Language distribution
+        section.append(element('h3', undefined, 'Language Distribution'));
+        section.append(split(
+            donutChart(topWithOther(folder.languages, 8).map(language => ({ label: language.name, value: language.lines }))),
+            sortableTable(`languages-${index}`, [
+                { key: 'name', label: 'Language' },
+                { key: 'category', label: 'Category' },
+                { key: 'count', label: 'Files', numeric: true },
+                { key: 'lines', label: 'Lines', numeric: true },
+                { key: 'code', label: 'Code', numeric: true },
+                { key: 'comment', label: 'Comments', numeric: true },
+                { key: 'percentage', label: '%', numeric: true, format: formatPercentage }
+            ], folder.languages)
+        ));
+
+        // Directories
+        section.append(element('h3', undefined, 'Top Directories by Line Count'));
+        section.append(split(
+            barChart(folder.directories.slice(0, 10).map(dir => ({ label: dir.name, value: dir.lines }))),
+            sortableTable(`directories-${index}`, [
+                { key: 'name', label: 'Directory' },
+                { key: 'count', label: 'Files', numeric: true },
+                { key: 'lines', label: 'Lines', numeric: true },
+                { key: 'percentage', label: '%', numeric: true, format: formatPercentage }
+            ], folder.directories)
+        ));
+
+        // File size distribution
+        section.append(element('h3', undefined, 'File Size Distribution'));
+        section.append(columnChart(folder.sizeBuckets.map(bucket => ({ label: bucket.label.replace(' lines', ''), value: bucket.count }))));
+
+        // Hotspots
+        section.append(element('h3', undefined, `Hotspots (last ${formatNumber(folder.hotspots.windowDays)} days)`));
+        section.append(renderHotspots(folder.hotspots, index));
+
+        // Line count history
+        section.append(element('h3', undefined, 'Line Count History'));
+        section.append(renderTrend(index));
+
+        // Code ownership
+        section.append(element('h3', undefined, 'Code Ownership'));
+        section.append(renderOwnership(index));
+
+        // Commit activity
+        section.append(element('h3', undefined, 'Commit Activity'));
+        section.append(renderActivity(index));
+
+        // Recently modified files
+        if (folder.recentFiles.length > 0) {
+            section.append(element('h3', undefined, 'Recently Modified Files'));
+            section.append(sortableTable(`recent-${index}`, [
+                { key: 'path', label: 'File' },
+                { key: 'timeAgo', label: 'Modified', sortable: false }
+            ], folder.recentFiles, row => openFile(index, row.path)));
+        }
+
+        // Working directory status
+        if (folder.changes) {
+            const changes = folder.changes;
+            section.append(element('h3', undefined, 'Git Working Directory Status'));
+            section.append(cards([
+                ['Branch Added', `+${formatNumber(changes.branchAdditions)}`, 'additions'],
+                ['Branch Removed', `-${formatNumber(changes.branchDeletions)}`, 'deletions'],
+                ['Branch Net', formatNumber(changes.branchAdditions - changes.branchDeletions)],
+                ['Staged/Unstaged Added', `+${formatNumber(changes.workingAdditions)}`, 'additions'],
+                ['Staged/Unstaged Removed', `-${formatNumber(changes.workingDeletions)}`, 'deletions'],
+                ['Untracked Lines', formatNumber(changes.untrackedLines)],
+                ['Total Uncommitted', formatNumber(changes.workingAdditions + changes.untrackedLines - changes.workingDeletions)],
+                ['Excluded Churn', formatNumber(changes.excludedBranchChurn + changes.excludedWorkingChurn)]
+            ]));
+        }
+
+        // Submodules
+        if (folder.submodules.length > 0) {
+            section.append(element('h3', undefined, 'Submodules'));
+            section.append(element('p', 'muted', folder.submodulesInTotals
+                ? 'Included in the totals above.'
+                : 'Not included in the totals above; set gitStats.submodules to includeInTotals to add them.'));
+            section.append(sortableTable(`submodules-${index}`, [
+                { key: 'path', label: 'Submodule' },
+                { key: 'branch', label: 'Branch' },
+                { key: 'files', label: 'Files', numeric: true },
+                { key: 'lines', label: 'Lines', numeric: true },
+                { key: 'branchChanges', label: 'Branch Changes', sortable: false },
+                { key: 'localChanges', label: 'Uncommitted', sortable: false }
+            ], folder.submodules.map(submodule => ({
+                ...submodule,
+                branch: submodule.branch || '',
+                branchChanges: `+${formatNumber(submodule.branchAdditions)} / -${formatNumber(submodule.branchDeletions)}`,
+                localChanges: `+${formatNumber(submodule.localAdditions)} / -${formatNumber(submodule.localDeletions)}`
+            }))));
+        }
+
+        return section;
+    }
+
+    function renderHotspots(hotspots, index) {
+        if (hotspots.files.length === 0) {
+            return element('p', 'muted', 'No counted file changed in this period.');
+        }
+
+        const container = element('div');
+        container.append(element('p', 'muted', 'Score = commits touching the file × current lines. Large files that keep changing are the best refactoring candidates.'));
+        container.append(split(
+            barChart(hotspots.files.slice(0, 10).map(file => ({ label: file.path.split('/').pop(), value: file.score }))),
+            sortableTable(`hotspots-${index}`, [
+                { key: 'path', label: 'File' },
+                { key: 'commits', label: 'Commits', numeric: true },
+                { key: 'lines', label: 'Lines', numeric: true },
+                { key: 'score', label: 'Score', numeric: true }
+            ], hotspots.files, row => openFile(index, row.path), row => ownersTooltip(index, row.path))
+        ));
+        container.append(sortableTable(`hotspot-directories-${index}`, [
+            { key: 'path', label: 'Directory' },
+            { key: 'fileCount', label: 'Files', numeric: true },
+            { key: 'commits', label: 'File Changes', numeric: true },
+            { key: 'lines', label: 'Lines', numeric: true },
+            { key: 'score', label: 'Score', numeric: true }
+        ], hotspots.directories));
+        return container;
+    }
+
+    function renderTrend(index) {
+        const state = trendState[index] || (trendState[index] = {});
+        const container = element('div', 'history');
+        const controls = element('div', 'controls');
+
+        const granularity = element('select');
+        [['commit', 'Per commit'], ['day', 'Per day'], ['week', 'Per week'], ['month', 'Per month']].forEach(([value, label]) => {
+            const option = element('option', undefined, label);
+            option.value = value;
+            option.selected = value === (state.granularity || 'week');
+            granularity.append(option);
+        });
+        granularity.addEventListener('change', () => {
+            state.granularity = granularity.value;
+            if (state.trend) {
+                loadTrend(index);
+            }
+        });
+
+        const byLanguageLabel = element('label');
+        const byLanguage = element('input');
+        byLanguage.type = 'checkbox';
+        byLanguage.checked = !!state.byLanguage;
+        byLanguage.addEventListener('change', () => {
+            state.byLanguage = byLanguage.checked;
+            render(lastData);
+        });
+        byLanguageLabel.append(byLanguage, ' By language');
+
+        const load = element('button', undefined, state.trend ? 'Reload history' : 'Load history');
+        load.disabled = !!state.loading;
+        load.addEventListener('click', () => loadTrend(index));
+
+        controls.append(granularity, byLanguageLabel, load);
+        container.append(controls);
+
+        if (state.loading) {
+            container.append(element('p', 'placeholder', 'Walking the branch history…'));
+        } else if (state.error) {
+            container.append(element('p', 'error', `Error: ${state.error}`));
+        } else if (state.trend) {
+            const trend = state.trend;
+            if (trend.points.length === 0) {
+                container.append(element('p', 'muted', 'No history on the current branch.'));
+                return container;
+            }
+
+            const dates = trend.points.map(point => point.date);
+            const series = state.byLanguage
+                ? trend.languages.map((language, i) => ({
+                    label: language,
+                    color: palette[i % palette.length],
+                    values: trend.points.map(point => point.languages[language] || 0)
+                }))
+                : [{ label: 'Total lines', color: palette[0], values: trend.points.map(point => point.totalLines) }];
+
+            container.append(element('p', 'muted', `${formatNumber(trend.commitCount)} commits, ${formatNumber(trend.points.length)} data points`));
+            container.append(lineChart(dates, series));
+            container.append(churnChart(dates, trend.points));
+        }
+
+        return container;
+    }
+
+    function loadTrend(index) {
+        const state = trendState[index] || (trendState[index] = {});
+        state.loading = true;
+        state.error = undefined;
+        vscode.postMessage({ type: 'loadTrend', folder: index, granularity: state.granularity || 'week' });
+        if (lastData) {
+            render(lastData);
+        }
+    }
+
+    function renderOwnership(index) {
+        const state = ownershipState[index] || (ownershipState[index] = {});
+        const container = element('div', 'ownership');
+        const controls = element('div', 'controls');
+        const load = element('button', undefined, state.ownership ? 'Re-analyze ownership' : 'Analyze ownership');
+        load.disabled = !!state.loading;
+        load.addEventListener('click', () => loadOwnership(index));
+        controls.append(load, element('span', 'muted', 'Runs git blame on every counted file'));
+        container.append(controls);
+
+        if (state.loading) {
+            container.append(element('p', 'placeholder', 'Running git blame…'));
+        } else if (state.error) {
+            container.append(element('p', 'error', `Error: ${state.error}`));
+        } else if (state.ownership) {
+            const ownership = state.ownership;
+            const concentrated = ownership.directories.filter(dir => dir.concentrated);
+
+            container.append(cards([
+                ['Blamed Files', formatNumber(ownership.fileCount)],
+                ['Surviving Lines', formatNumber(ownership.totalLines)],
+                ['Authors', formatNumber(ownership.authors.length)],
+                ['Concentrated Directories', formatNumber(concentrated.length), concentrated.length > 0 ? 'deletions' : '']
+            ]));
+
+            container.append(element('h4', undefined, 'Authors'));
+            container.append(split(
+                donutChart(topWithOther(ownership.authors.map(author => ({ name: author.author, lines: author.lines })), 8)
+                    .map(author => ({ label: author.name, value: author.lines }))),
+                sortableTable(`authors-${index}`, [
+                    { key: 'author', label: 'Author' },
+                    { key: 'email', label: 'Email' },
+                    { key: 'files', label: 'Files', numeric: true },
+                    { key: 'lines', label: 'Lines', numeric: true },
+                    { key: 'percentage', label: '%', numeric: true, format: formatPercentage }
+                ], ownership.authors)
+            ));
+
+            container.append(element('h4', undefined, 'Directories'));
+            container.append(sortableTable(`ownership-dirs-${index}`, [
+                { key: 'path', label: 'Directory' },
+                { key: 'fileCount', label: 'Files', numeric: true },
+                { key: 'lines', label: 'Lines', numeric: true },
+                { key: 'topOwner', label: 'Top Owner' },
+                { key: 'topShare', label: 'Owned', numeric: true, format: formatPercentage },
+                { key: 'busFactor', label: 'Bus Factor', numeric: true },
+                { key: 'risk', label: 'Risk' }
+            ], ownership.directories.map(dir => ({
+                ...dir,
+                topOwner: dir.owners.length > 0 ? dir.owners[0].author : '',
+                topShare: dir.owners.length > 0 ? dir.owners[0].percentage : 0,
+                risk: dir.concentrated ? '⚠ single owner' : ''
+            })), undefined, row => formatOwners(row.owners)));
+
+            container.append(element('h4', undefined, 'Files'));
+            container.append(sortableTable(`ownership-files-${index}`, [
+                { key: 'path', label: 'File' },
+                { key: 'lines', label: 'Lines', numeric: true },
+                { key: 'topOwner', label: 'Top Owner' },
+                { key: 'topShare', label: 'Owned', numeric: true, format: formatPercentage },
+                { key: 'authors', label: 'Authors', numeric: true }
+            ], ownership.files.map(file => ({
+                ...file,
+                topOwner: file.owners.length > 0 ? file.owners[0].author : '',
+                topShare: file.owners.length > 0 ? file.owners[0].percentage : 0,
+                authors: file.owners.length
+            })), row => openFile(index, row.path), row => formatOwners(row.owners)));
+        }
+
+        return container;
+    }
+
+    function loadOwnership(index) {
+        const state = ownershipState[index] || (ownershipState[index] = {});
+        state.loading = true;
+        state.error = undefined;
+        vscode.postMessage({ type: 'loadOwnership', folder: index });
+        if (lastData) {
+            render(lastData);
+        }
+    }
+
+    function renderActivity(index) {
+        const state = activityState[index] || (activityState[index] = {});
+        const container = element('div', 'activity');
+        const controls = element('div', 'controls');
+
+        // The author list comes with the first report
+        const author = element('select');
+        const options = [['all', 'All authors'], ['me', 'Me (user.email)']];
+        if (state.activity) {
+            state.activity.authors.forEach(entry => options.push([`author:${entry.email}`, `${entry.author} <${entry.email}>`]));
+        }
+        options.forEach(([value, label]) => {
+            const option = element('option', undefined, label);
+            option.value = value;
+            option.selected = value === (state.author || 'all');
+            author.append(option);
+        });
+        author.addEventListener('change', () => {
+            state.author = author.value;
+            loadActivity(index);
+        });
+
+        const load = element('button', undefined, state.activity ? 'Reload activity' : 'Load activity');
+        load.disabled = !!state.loading;
+        load.addEventListener('click', () => loadActivity(index));
+
+        controls.append(author, load);
+        container.append(controls);
+
+        if (state.loading) {
+            container.append(element('p', 'placeholder', 'Reading the commit log…'));
+        } else if (state.error) {
+            container.append(element('p', 'error', `Error: ${state.error}`));
+        } else if (state.activity) {
+            const activity = state.activity;
+            const longest = activity.longestStreak;
+            container.append(cards([
+                ['Commits', formatNumber(activity.totalCommits)],
+                ['Active Days', formatNumber(activity.activeDays)],
+                ['Longest Streak', longest ? `${formatNumber(longest.days)} days` : '-'],
+                ['Current Streak', `${formatNumber(activity.currentStreak)} days`]
+            ]));
+            if (longest) {
+                container.append(element('p', 'muted', `Longest streak from ${longest.start} to ${longest.end}`));
+            }
+
+            container.append(element('h4', undefined, 'Weekday and Hour (author local time)'));
+            container.append(heatmapChart(activity.heatmap));
+            container.append(element('h4', undefined, 'Commits per Week (last year)'));
+            container.append(weeklyChart(activity.weekly));
+        }
+
+        return container;
+    }
+
+    function loadActivity(index) {
+        const state = activityState[index] || (activityState[index] = {});
+        const author = state.author || 'all';
+        state.loading = true;
+        state.error = undefined;
+        const filter = author.startsWith('author:') ? { type: 'author', email: author.slice('author:'.length) } : { type: author };
+        vscode.postMessage({ type: 'loadActivity', folder: index, filter });
+        if (lastData) {
+            render(lastData);
+        }
+    }
+
+    function ownersTooltip(index, filePath) {
+        const state = ownershipState[index];
+        const file = state && state.ownership && state.ownership.files.find(f => f.path === filePath);
+        return file ? formatOwners(file.owners) : undefined;
+    }
+
+    function formatOwners(owners) {
+        return owners.slice(0, 10)
+            .map(owner => `${owner.author} <${owner.email}>: ${formatNumber(owner.lines)} lines (${formatPercentage(owner.percentage)})`)
+            .join('\n');
+    }
+
+    function openFile(folder, filePath) {
+        vscode.postMessage({ type: 'openFile', folder, path: filePath });
+    }
+
+    // === Building blocks ===
+
+    function element(tag, className, text) {
+        const node = document.createElement(tag);
+        if (className) {
+            node.className = className;
+        }
+        if (text !== undefined) {
+            node.textContent = text;
+        }
+        return node;
+    }
+
+    function cards(items) {
+        const container = element('div', 'cards');
+        items.forEach(([label, value, className]) => {
+            const card = element('div', 'card');
+            card.append(element('div', 'label', label), element('div', `value ${className || ''}`, value));
+            container.append(card);
+        });
+        return container;
+    }
+
+    function split(...children) {
+        const container = element('div', 'split');
+        children.forEach(child => {
+            const cell = element('div');
+            cell.append(child);
+            container.append(cell);
+        });
+        return container;
+    }
+
+    /**
+     * Table whose columns sort on header click. The sort order is remembered
+     * per table id so live refreshes keep the user's choice.
+     */
+    function sortableTable(id, columns, rows, onRowClick, rowTooltip) {
+        const table = element('table');
+        const state = sortState[id];
+        const sortedRows = [...rows];
+
+        if (state) {
+            const column = columns.find(c => c.key === state.key);
+            sortedRows.sort((a, b) => {
+                const left = a[state.key];
+                const right = b[state.key];
+                const order = column && column.numeric ? left - right : String(left).localeCompare(String(right));
+                return state.ascending ? order : -order;
+            });
+        }
+
+        const headerRow = element('tr');
+        columns.forEach(column => {
+            const th = element('th', column.numeric ? 'numeric' : '', column.label);
+            if (state && state.key === column.key) {
+                th.classList.add(state.ascending ? 'sorted-asc' : 'sorted-desc');
+            }
+            if (column.sortable !== false) {
+                th.addEventListener('click', () => {
+                    const ascending = state && state.key === column.key ? !state.ascending : !column.numeric;
+                    sortState[id] = { key: column.key, ascending };
+                    vscode.setState({ sortState });
+                    if (lastData) {
+                        render(lastData);
+                    }
+                });
+            }
+            headerRow.append(th);
+        });
+        const thead = element('thead');
+        thead.append(headerRow);
+        table.append(thead);
+
+        const tbody = element('tbody');
+        sortedRows.forEach(row => {
+            const tr = element('tr');
+            columns.forEach(column => {
+                const value = row[column.key];
+                const text = column.format ? column.format(value) : column.numeric ? formatNumber(value) : String(value);
+                tr.append(element('td', column.numeric ? 'numeric' : '', text));
+            });
+            const title = rowTooltip && rowTooltip(row);
+            if (title) {
+                tr.title = title;
+            }
+            if (onRowClick) {
+                tr.className = 'clickable';
+                tr.tabIndex = 0;
+                tr.addEventListener('click', () => onRowClick(row));
+                tr.addEventListener('keydown', event => {
+                    if (event.key === 'Enter') {
+                        onRowClick(row);
+                    }
+                });
+            }
+            tbody.append(tr);
+        });
+        table.append(tbody);
+
+        return table;
+    }
+
+    function svg(tag, attributes) {
+        const node = document.createElementNS(svgNamespace, tag);
+        Object.entries(attributes || {}).forEach(([name, value]) => node.setAttribute(name, String(value)));
+        return node;
+    }
+
+    function svgText(x, y, text, attributes) {
+        const node = svg('text', Object.assign({ x, y }, attributes));
+        node.textContent = text;
+        return node;
+    }
+
+    function tooltip(node, text) {
+        const title = svg('title');
+        title.textContent = text;
+        node.append(title);
+        return node;
+    }
+
+    function barChart(items) {
+        const rowHeight = 22;
+        const labelWidth = 140;
+        const width = 420;
+        const max = Math.max(1, ...items.map(item => item.value));
+        const chart = svg('svg', { width, height: items.length * rowHeight + 4, role: 'img' });
+
+        items.forEach((item, i) => {
+            const y = i * rowHeight;
+            const barWidth = Math.max(1, ((width - labelWidth - 60) * item.value) / max);
+            chart.append(svgText(labelWidth - 6, y + 15, truncate(item.label, 20), { 'text-anchor': 'end' }));
+            chart.append(tooltip(svg('rect', { x: labelWidth, y: y + 4, width: barWidth, height: rowHeight - 8, fill: palette[0] }), `${item.label}: ${formatNumber(item.value)}`));
+            chart.append(svgText(labelWidth + barWidth + 4, y + 15, formatCompact(item.value)));
+        });
+
+        return chart;
+    }
+
+    function columnChart(items) {
+        const width = 420;
+        const height = 180;
+        const bottom = 30;
+        const columnWidth = width / Math.max(1, items.length);
+        const max = Math.max(1, ...items.map(item => item.value));
+        const chart = svg('svg', { width, height, role: 'img' });
+
+        items.forEach((item, i) => {
+            const barHeight = ((height - bottom - 16) * item.value) / max;
+            const x = i * columnWidth;
+            chart.append(tooltip(svg('rect', { x: x + 6, y: height - bottom - barHeight, width: columnWidth - 12, height: barHeight, fill: palette[1] }), `${item.label}: ${formatNumber(item.value)} files`));
+            chart.append(svgText(x + columnWidth / 2, height - bottom - barHeight - 4, formatNumber(item.value), { 'text-anchor': 'middle' }));
+            chart.append(svgText(x + columnWidth / 2, height - bottom + 16, item.label, { 'text-anchor': 'middle' }));
+        });
+
+        return chart;
+    }
+
+    function donutChart(items) {
+        const size = 180;
+        const radius = 70;
+        const center = size / 2;
+        const total = items.reduce((sum, item) => sum + item.value, 0);
+        const chart = svg('svg', { width: size + 180, height: size, role: 'img' });
+
+        let angle = -Math.PI / 2;
+        items.forEach((item, i) => {
+            const color = palette[i % palette.length];
+            const slice = total > 0 ? (item.value / total) * Math.PI * 2 : 0;
+            const x1 = center + radius * Math.cos(angle);
+            const y1 = center + radius * Math.sin(angle);
+            const x2 = center + radius * Math.cos(angle + slice - 0.0001);
+            const y2 = center + radius * Math.sin(angle + slice - 0.0001);
+            const largeArc = slice > Math.PI ? 1 : 0;
+            const label = `${item.label}: ${formatNumber(item.value)} lines (${formatPercentage(total > 0 ? (item.value / total) * 100 : 0)})`;
+            chart.append(tooltip(svg('path', {
+                d: `M ${x1} ${y1} A ${radius} ${radius} 0 ${largeArc} 1 ${x2} ${y2}`,
+                fill: 'none',
+                stroke: color,
+                'stroke-width': 28
+            }), label));
+            angle += slice;
+
+            chart.append(svg('rect', { x: size + 10, y: 12 + i * 18, width: 10, height: 10, fill: color }));
+            chart.append(svgText(size + 26, 21 + i * 18, truncate(item.label, 22)));
+        });
+
+        return chart;
+    }
+
+    function lineChart(dates, series) {
+        const width = 760;
+        const height = 220;
+        const left = 60;
+        const bottom = 24;
+        const max = Math.max(1, ...series.map(line => Math.max(...line.values)));
+        const stepX = (width - left - 10) / Math.max(1, dates.length - 1);
+        const scaleY = value => height - bottom - ((height - bottom - 10) * Math.max(0, value)) / max;
+        const chart = svg('svg', { width, height: height + series.length * 18, role: 'img' });
+
+        chart.append(svgText(left - 6, scaleY(max) + 4, formatCompact(max), { 'text-anchor': 'end' }));
+        chart.append(svgText(left - 6, scaleY(0), '0', { 'text-anchor': 'end' }));
+        chart.append(svg('line', { x1: left, y1: scaleY(0), x2: width - 10, y2: scaleY(0), stroke: 'var(--vscode-panel-border)' }));
+        dateLabels(chart, dates, left, stepX, height - 6);
+
+        series.forEach((line, i) => {
+            const points = line.values.map((value, j) => `${left + j * stepX},${scaleY(value)}`).join(' ');
+            chart.append(tooltip(svg('polyline', { points, fill: 'none', stroke: line.color, 'stroke-width': 2 }), `${line.label}: ${formatNumber(line.values[line.values.length - 1])} lines now`));
+            chart.append(svg('rect', { x: left, y: height + 4 + i * 18, width: 10, height: 10, fill: line.color }));
+            chart.append(svgText(left + 16, height + 13 + i * 18, line.label));
+        });
+
+        return chart;
+    }
+
+    function churnChart(dates, points) {
+        const width = 760;
+        const height = 140;
+        const left = 60;
+        const middle = (height - 20) / 2;
+        const max = Math.max(1, ...points.map(point => Math.max(point.additions, point.deletions)));
+        const stepX = (width - left - 10) / Math.max(1, points.length);
+        const barWidth = Math.max(1, stepX - 1);
+        const chart = svg('svg', { width, height, role: 'img' });
+
+        chart.append(svgText(left - 6, 12, `+${formatCompact(max)}`, { 'text-anchor': 'end' }));
+        chart.append(svgText(left - 6, height - 24, `-${formatCompact(max)}`, { 'text-anchor': 'end' }));
+
+        points.forEach((point, i) => {
+            const x = left + i * stepX;
+            const up = (middle * point.additions) / max;
+            const down = (middle * point.deletions) / max;
+            const label = `${point.date}: +${formatNumber(point.additions)} / -${formatNumber(point.deletions)}`;
+            chart.append(tooltip(svg('rect', { x, y: middle - up, width: barWidth, height: up, fill: 'var(--vscode-charts-green)' }), label));
+            chart.append(tooltip(svg('rect', { x, y: middle, width: barWidth, height: down, fill: 'var(--vscode-charts-red)' }), label));
+        });
+        chart.append(svg('line', { x1: left, y1: middle, x2: width - 10, y2: middle, stroke: 'var(--vscode-panel-border)' }));
+        dateLabels(chart, dates, left + barWidth / 2, stepX, height - 4);
+
+        return chart;
+    }
+
+    function heatmapChart(heatmap) {
+        const cell = 22;
+        const left = 40;
+        const top = 16;
+        const max = Math.max(1, ...heatmap.map(row => Math.max(...row)));
+        const chart = svg('svg', { width: left + 24 * cell, height: top + 7 * cell + 4, role: 'img' });
+
+        for (let hour = 0; hour < 24; hour += 3) {
+            chart.append(svgText(left + hour * cell + cell / 2, 11, String(hour), { 'text-anchor': 'middle' }));
+        }
+        heatmap.forEach((row, day) => {
+            chart.append(svgText(left - 6, top + day * cell + 15, weekdays[day], { 'text-anchor': 'end' }));
+            row.forEach((count, hour) => {
+                const rect = svg('rect', {
+                    x: left + hour * cell + 1,
+                    y: top + day * cell + 1,
+                    width: cell - 2,
+                    height: cell - 2,
+                    fill: count > 0 ? palette[0] : 'var(--vscode-editorWidget-background)',
+                    'fill-opacity': count > 0 ? 0.15 + (0.85 * count) / max : 1
+                });
+                chart.append(tooltip(rect, `${weekdays[day]} ${hour}:00-${hour}:59: ${formatNumber(count)} commits`));
+            });
+        });
+
+        return chart;
+    }
+
+    function weeklyChart(weeks) {
+        const width = 760;
+        const height = 120;
+        const left = 40;
+        const bottom = 20;
+        const max = Math.max(1, ...weeks.map(week => week.commits));
+        const stepX = (width - left - 10) / Math.max(1, weeks.length);
+        const chart = svg('svg', { width, height, role: 'img' });
+
+        chart.append(svgText(left - 6, 12, formatCompact(max), { 'text-anchor': 'end' }));
+        weeks.forEach((week, i) => {
+            const barHeight = ((height - bottom - 6) * week.commits) / max;
+            chart.append(tooltip(svg('rect', {
+                x: left + i * stepX,
+                y: height - bottom - barHeight,
+                width: Math.max(1, stepX - 2),
+                height: barHeight,
+                fill: palette[1]
+            }), `Week of ${week.week}: ${formatNumber(week.commits)} commits`));
+        });
+        dateLabels(chart, weeks.map(week => week.week), left + stepX / 2, stepX, height - 4);
+
+        return chart;
+    }
+
+    function dateLabels(chart, dates, left, stepX, y) {
+        const indexes = dates.length > 2 ? [0, Math.floor((dates.length - 1) / 2), dates.length - 1] : dates.map((_, i) => i);
+        indexes.forEach(i => {
+            chart.append(svgText(left + i * stepX, y, dates[i], { 'text-anchor': i === 0 ? 'start' : i === dates.length - 1 ? 'end' : 'middle' }));
+        });
+    }
+
+    // === Formatting ===
+
+    function topWithOther(groups, limit) {
+        if (groups.length <= limit) {
+            return groups;
+        }
+        const top = groups.slice(0, limit - 1);
+        const other = groups.slice(limit - 1).reduce((sum, group) => sum + group.lines, 0);
+        return [...top, { name: 'Other', lines: other }];
+    }
+
+    function formatNumber(value) {
+        return Number(value).toLocaleString();
+    }
+
+    function formatPercentage(value) {
+        return `${Number(value).toFixed(1)}%`;
+    }
+
+    function formatCompact(value) {
+        if (value >= 1000000) {
+            return `${(value / 1000000).toFixed(1)}M`;
+        }
+        if (value >= 1000) {
+            return `${(value / 1000).toFixed(1)}K`;
+        }
+        return String(value);
+    }
+
+    function truncate(text, length) {
+        return text.length > length ? text.slice(0, length - 1) + '…' : text;
+    }
+}());
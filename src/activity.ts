@@ -0,0 +1,118 @@
+import { AuthoredCommit } from './gitManager';
+
+export type ActivityFilter =
+    | { type: 'all' }
+    | { type: 'me' }
+    | { type: 'author'; email: string };
+
+export interface ActivityStreak {
+    days: number;
+    /** First and last day of the streak, `YYYY-MM-DD` */
+    start: string;
+    end: string;
+}
+
+export interface ActivityReport {
+    /** Email the report is restricted to, null for all authors */
+    email: string | null;
+    totalCommits: number;
+    activeDays: number;
+    /** Commits per weekday (0 = Monday) and hour, in each author's local time */
+    heatmap: number[][];
+    /** Commits per week over the last year, oldest first; weeks start on Monday */
+    weekly: Array<{ week: string; commits: number }>;
+    longestStreak: ActivityStreak | null;
+    /** Consecutive days with commits up to today or yesterday */
+    currentStreak: number;
+    /** Every author of the unfiltered history, most active first */
+    authors: Array<{ author: string; email: string; commits: number }>;
+}
+
+const dayMs = 24 * 60 * 60 * 1000;
+const weeksPerYear = 52;
+
+/**
+ * Builds the commit activity of one author, or of everyone when `email` is
+ * null. Weekdays, hours and days are taken in the author's own time zone,
+ * so a commit made at 9am in Tokyo counts as a 9am commit.
+ */
+export function buildActivityReport(commits: AuthoredCommit[], email: string | null, now: number = Date.now()): ActivityReport {
+    const authors = new Map<string, { author: string; email: string; commits: number }>();
+    for (const commit of commits) {
+        const key = commit.email.toLowerCase();
+        const entry = authors.get(key) || { author: commit.author, email: commit.email, commits: 0 };
+        entry.commits++;
+        authors.set(key, entry);
+    }
+
+    const selected = email === null
+        ? commits
+        : commits.filter(commit => commit.email.toLowerCase() === email.toLowerCase());
+
+    const heatmap = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+    const days = new Set<string>();
+    const weekly = new Map<string, number>();
+    const firstWeek = startOfWeek(now - (weeksPerYear - 1) * 7 * dayMs);
+    for (let week = firstWeek; week <= now; week += 7 * dayMs) {
+        weekly.set(formatDay(week), 0);
+    }
+
+    for (const commit of selected) {
+        const local = new Date(commit.timestamp + commit.utcOffset * 60 * 1000);
+        heatmap[(local.getUTCDay() + 6) % 7][local.getUTCHours()]++;
+        days.add(formatDay(local.getTime()));
+
+        const week = formatDay(startOfWeek(local.getTime()));
+        if (weekly.has(week)) {
+            weekly.set(week, (weekly.get(week) || 0) + 1);
+        }
+    }
+
+    const streaks = findStreaks(Array.from(days).sort());
+    const today = formatDay(now - new Date(now).getTimezoneOffset() * 60 * 1000);
+    const yesterday = formatDay(Date.parse(today) - dayMs);
+    const last = streaks.length > 0 ? streaks[streaks.length - 1] : null;
+
+    return {
+        email,
+        totalCommits: selected.length,
+        activeDays: days.size,
+        heatmap,
+        weekly: Array.from(weekly.entries()).map(([week, count]) => ({ week, commits: count })),
+        longestStreak: streaks.reduce<ActivityStreak | null>(
+            (longest, streak) => (!longest || streak.days > longest.days ? streak : longest),
+            null
+        ),
+        currentStreak: last && (last.end === today || last.end === yesterday) ? last.days : 0,
+        authors: Array.from(authors.values()).sort((a, b) => b.commits - a.commits)
+    };
+}
+
+/** Splits sorted `YYYY-MM-DD` days into runs of consecutive days */
+function findStreaks(sortedDays: string[]): ActivityStreak[] {
+    const streaks: ActivityStreak[] = [];
+    let current: ActivityStreak | null = null;
+
+    for (const day of sortedDays) {
+        if (current && Date.parse(day) - Date.parse(current.end) === dayMs) {
+            current.days++;
+            current.end = day;
+        } else {
+            current = { days: 1, start: day, end: day };
+            streaks.push(current);
+        }
+    }
+
+    return streaks;
+}
+
+/** Monday 00:00 UTC of the week containing the given UTC time */
+function startOfWeek(time: number): number {
+    const date = new Date(time);
+    const monday = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+    return monday - ((date.getUTCDay() + 6) % 7) * dayMs;
+}
+
+function formatDay(time: number): string {
+    return new Date(time).toISOString().slice(0, 10);
+}
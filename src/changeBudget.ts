@@ -0,0 +1,101 @@
+import { GitStats } from './gitManager';
+import { IgnoreMatcher, parseGlobPatterns } from './glob';
+import { Settings } from './settings';
+
+export type BudgetKind = 'branch' | 'local';
+export type BudgetLevel = 'ok' | 'warning' | 'error';
+
+export interface BudgetStatus {
+    kind: BudgetKind;
+    /** Added plus deleted lines outside the budget exclude patterns, whatever the line count filters */
+    lines: number;
+    warningLines: number;
+    errorLines: number;
+    level: BudgetLevel;
+}
+
+interface BudgetSettings {
+    branchWarning: number;
+    branchError: number;
+    localWarning: number;
+    localError: number;
+    excludePatterns: string[];
+}
+
+export const levelRank: Record<BudgetLevel, number> = { ok: 0, warning: 1, error: 2 };
+
+/**
+ * Checks the branch and uncommitted changes of a folder against the budgets
+ * in its settings. Budgets set to 0 are disabled and left out. Only the
+ * budget exclude patterns apply, so a file hidden from the line count still
+ * counts towards the budgets.
+ */
+export function evaluateChangeBudgets(config: Settings, gitStats: GitStats | null): BudgetStatus[] {
+    if (!gitStats) {
+        return [];
+    }
+
+    const settings = getBudgetSettings(config);
+    const excluded = new IgnoreMatcher(parseGlobPatterns(settings.excludePatterns));
+    let branchLines = 0;
+    let localLines = 0;
+    for (const file of [...gitStats.files, ...gitStats.excludedFiles]) {
+        if (excluded.isIgnored(file.path)) {
+            continue;
+        }
+        branchLines += file.branchAdditions + file.branchDeletions;
+        localLines += file.stagedAdditions + file.stagedDeletions
+            + file.unstagedAdditions + file.unstagedDeletions
+            + file.untrackedLines;
+    }
+
+    const statuses: BudgetStatus[] = [];
+    // On a base branch only rolled up submodules can have branch changes
+    if ((!gitStats.isMainBranch || branchLines > 0) && (settings.branchWarning > 0 || settings.branchError > 0)) {
+        statuses.push(createStatus('branch', branchLines, settings.branchWarning, settings.branchError));
+    }
+    if (settings.localWarning > 0 || settings.localError > 0) {
+        statuses.push(createStatus('local', localLines, settings.localWarning, settings.localError));
+    }
+    return statuses;
+}
+
+/** The most severe level of the given budgets */
+export function worstBudgetLevel(statuses: BudgetStatus[]): BudgetLevel {
+    return statuses.reduce<BudgetLevel>(
+        (worst, status) => (levelRank[status.level] > levelRank[worst] ? status.level : worst),
+        'ok'
+    );
+}
+
+export function describeBudget(status: BudgetStatus): string {
+    const limit = budgetLimit(status);
+    const label = status.kind === 'branch' ? 'Branch budget' : 'Local budget';
+    const suffix = status.level === 'ok' ? '' : ' (over budget)';
+    return `${label}: ${status.lines.toLocaleString()} of ${limit.toLocaleString()} changed lines${suffix}`;
+}
+
+function createStatus(kind: BudgetKind, lines: number, warningLines: number, errorLines: number): BudgetStatus {
+    let level: BudgetLevel = 'ok';
+    if (errorLines > 0 && lines > errorLines) {
+        level = 'error';
+    } else if (warningLines > 0 && lines > warningLines) {
+        level = 'warning';
+    }
+    return { kind, lines, warningLines, errorLines, level };
+}
+
+/** The warning budget, or the error budget once that one is crossed or when no warning budget is set */
+export function budgetLimit(status: BudgetStatus): number {
+    return status.level === 'error' || status.warningLines === 0 ? status.errorLines : status.warningLines;
+}
+
+function getBudgetSettings(config: Settings): BudgetSettings {
+    return {
+        branchWarning: config.get<number>('branchBudgetWarningLines', 0),
+        branchError: config.get<number>('branchBudgetErrorLines', 0),
+        localWarning: config.get<number>('localBudgetWarningLines', 0),
+        localError: config.get<number>('localBudgetErrorLines', 0),
+        excludePatterns: config.get<string[]>('budgetExcludePatterns', [])
+    };
+}
@@ -0,0 +1,54 @@
+import * as vscode from 'vscode';
+import { FolderStats } from './folderPipeline';
+import { GitStats } from './gitManager';
+import { BudgetLevel, BudgetStatus, budgetLimit, evaluateChangeBudgets, levelRank } from './changeBudget';
+
+/**
+ * Suggests splitting the work once when a folder's branch or local changes
+ * cross a budget. The notification comes back only after the changes dropped
+ * under the budget again, on another branch, or when the error budget is crossed.
+ */
+export class ChangeBudgetNotifier {
+    /** Highest level already notified, per folder, branch and kind of budget */
+    private notified: Map<string, BudgetLevel> = new Map();
+
+    public update(folderStats: FolderStats[]): void {
+        for (const { folder, gitStats } of folderStats) {
+            if (!gitStats) {
+                continue;
+            }
+
+            const config = vscode.workspace.getConfiguration('gitStats', folder.uri);
+            const enabled = config.get<boolean>('budgetNotifications', true);
+            for (const status of evaluateChangeBudgets(config, gitStats)) {
+                const key = `${folder.uri.fsPath}\0${gitStats.branch}\0${status.kind}`;
+                if (status.level === 'ok') {
+                    this.notified.delete(key);
+                    continue;
+                }
+
+                if (levelRank[status.level] > levelRank[this.notified.get(key) || 'ok']) {
+                    this.notified.set(key, status.level);
+                    if (enabled) {
+                        this.notify(folder, gitStats, status);
+                    }
+                }
+            }
+        }
+    }
+
+    private async notify(folder: vscode.WorkspaceFolder, gitStats: GitStats, status: BudgetStatus): Promise<void> {
+        const limit = budgetLimit(status);
+        const where = vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 1
+            ? ` in ${folder.name}`
+            : '';
+        const message = status.kind === 'branch'
+            ? `Git Stats: Branch ${gitStats.branch}${where} changes ${status.lines.toLocaleString()} lines, over the budget of ${limit.toLocaleString()}. Consider splitting it into smaller pull requests.`
+            : `Git Stats: Uncommitted changes${where} reached ${status.lines.toLocaleString()} lines, over the budget of ${limit.toLocaleString()}. Consider committing in smaller steps.`;
+
+        const choice = await vscode.window.showWarningMessage(message, 'Show Changed Files');
+        if (choice) {
+            await vscode.commands.executeCommand('gitStats.showChangedFiles');
+        }
+    }
+}
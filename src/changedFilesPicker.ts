@@ -0,0 +1,180 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FileChange, GitManager, GitStats } from './gitManager';
+
+type ChangeKind = 'staged' | 'unstaged' | 'untracked' | 'branch';
+
+interface ChangedFileItem extends vscode.QuickPickItem {
+    change: FileChange;
+}
+
+interface ChangeKindItem extends vscode.QuickPickItem {
+    changeKind: ChangeKind;
+}
+
+/**
+ * Lists every file contributing to the branch and local change counters and
+ * opens the diff matching the selected kind of change.
+ */
+export async function showChangedFiles(
+    rootPath: string,
+    gitManager: GitManager,
+    gitStats: GitStats
+): Promise<void> {
+    if (gitStats.files.length === 0) {
+        vscode.window.showInformationMessage('Git Stats: No changed files');
+        return;
+    }
+
+    const items: ChangedFileItem[] = [...gitStats.files]
+        .sort((a, b) => totalChurn(b) - totalChurn(a) || a.path.localeCompare(b.path))
+        .map(change => ({
+            label: path.basename(change.path),
+            description: path.dirname(change.path) === '.' ? undefined : path.dirname(change.path),
+            detail: getChangeKinds(change).map(kind => describeChange(change, kind)).join('  ·  '),
+            change
+        }));
+
+    const workingAdditions = gitStats.workingAdditions + gitStats.untrackedLines;
+    const local = `local: +${workingAdditions}/-${gitStats.workingDeletions}`;
+    // Off a base branch, or with branch changes of submodules rolled up
+    const against = gitStats.comparisonBase ? ` against ${gitStats.comparisonBase}` : '';
+    const placeHolder = gitStats.comparisonBase || gitStats.branchAdditions > 0 || gitStats.branchDeletions > 0
+        ? `branch: +${gitStats.branchAdditions}/-${gitStats.branchDeletions}${against}, ${local}`
+        : local;
+
+    const selected = await vscode.window.showQuickPick(items, {
+        placeHolder,
+        matchOnDescription: true,
+        matchOnDetail: true
+    });
+    if (!selected) {
+        return;
+    }
+
+    const kinds = getChangeKinds(selected.change);
+    let kind: ChangeKind | undefined = kinds[0];
+    if (kinds.length > 1) {
+        const choice = await vscode.window.showQuickPick(
+            kinds.map((candidate): ChangeKindItem => ({
+                label: describeChange(selected.change, candidate),
+                description: describeDiff(candidate, gitStats.comparisonBase),
+                changeKind: candidate
+            })),
+            { placeHolder: `Select the diff of ${selected.change.path} to open` }
+        );
+        kind = choice?.changeKind;
+    }
+    if (!kind) {
+        return;
+    }
+
+    await openDiff(rootPath, gitManager, gitStats, selected.change, kind);
+}
+
+async function openDiff(
+    rootPath: string,
+    gitManager: GitManager,
+    gitStats: GitStats,
+    change: FileChange,
+    kind: ChangeKind
+): Promise<void> {
+    const fileUri = vscode.Uri.file(path.join(rootPath, change.path));
+    const name = path.basename(change.path);
+
+    switch (kind) {
+        case 'untracked':
+            await vscode.window.showTextDocument(fileUri, { preview: true });
+            return;
+        case 'staged':
+            await vscode.commands.executeCommand(
+                'vscode.diff', toGitUri(fileUri, 'HEAD'), toGitUri(fileUri, ''), `${name} (Index)`
+            );
+            return;
+        case 'unstaged':
+            await vscode.commands.executeCommand(
+                'vscode.diff', toGitUri(fileUri, '~'), fileUri, `${name} (Working Tree)`
+            );
+            return;
+        case 'branch': {
+            const base = gitStats.comparisonBase
+                ? await gitManager.getMergeBase(gitStats.comparisonBase, 'HEAD')
+                : null;
+            if (!base) {
+                vscode.window.showWarningMessage(`Git Stats: Could not find the merge base of ${gitStats.comparisonBase}`);
+                return;
+            }
+            await vscode.commands.executeCommand(
+                'vscode.diff',
+                toGitUri(fileUri, base),
+                toGitUri(fileUri, 'HEAD'),
+                `${name} (${gitStats.comparisonBase}...HEAD)`
+            );
+            return;
+        }
+    }
+}
+
+/**
+ * Builds a URI served by the built-in git extension: `HEAD` or a commit for
+ * that revision, an empty ref for the index and `~` for the index as the base
+ * of the working tree.
+ */
+function toGitUri(uri: vscode.Uri, ref: string): vscode.Uri {
+    return uri.with({
+        scheme: 'git',
+        path: uri.path,
+        query: JSON.stringify({ path: uri.fsPath, ref })
+    });
+}
+
+function getChangeKinds(change: FileChange): ChangeKind[] {
+    const kinds: ChangeKind[] = [];
+    if (change.stagedAdditions > 0 || change.stagedDeletions > 0) {
+        kinds.push('staged');
+    }
+    if (change.unstagedAdditions > 0 || change.unstagedDeletions > 0) {
+        kinds.push('unstaged');
+    }
+    if (change.untrackedLines > 0) {
+        kinds.push('untracked');
+    }
+    if (change.branchAdditions > 0 || change.branchDeletions > 0) {
+        kinds.push('branch');
+    }
+    // Binary or mode-only changes still deserve a diff
+    return kinds.length > 0 ? kinds : ['unstaged'];
+}
+
+function describeChange(change: FileChange, kind: ChangeKind): string {
+    switch (kind) {
+        case 'staged':
+            return `staged +${change.stagedAdditions}/-${change.stagedDeletions}`;
+        case 'unstaged':
+            return `unstaged +${change.unstagedAdditions}/-${change.unstagedDeletions}`;
+        case 'untracked':
+            return `untracked +${change.untrackedLines}`;
+        case 'branch':
+            return `branch +${change.branchAdditions}/-${change.branchDeletions}`;
+    }
+}
+
+function describeDiff(kind: ChangeKind, comparisonBase: string | null): string {
+    switch (kind) {
+        case 'staged':
+            return 'Index vs HEAD';
+        case 'unstaged':
+            return 'Working tree vs index';
+        case 'untracked':
+            return 'Open the file';
+        case 'branch':
+            return `${comparisonBase}...HEAD`;
+    }
+}
+
+function totalChurn(change: FileChange): number {
+    return change.stagedAdditions + change.stagedDeletions
+        + change.unstagedAdditions + change.unstagedDeletions
+        + change.untrackedLines
+        + change.branchAdditions + change.branchDeletions;
+}
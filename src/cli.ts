@@ -0,0 +1,291 @@
+#!/usr/bin/env node
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import { GitManager, GitStats } from './gitManager';
+import { LineCounter } from './lineCounter';
+import { FileLineCache } from './fileLineCache';
+import { defaultMaxGitProcesses, sharedGitRunner } from './gitRunner';
+import { Settings } from './settings';
+import { LineCountMode, buildTemplateValues, renderTemplate } from './statusBarTemplate';
+
+/** The summary the bash prompt used to print: `12.3K (branch: +120/-8) [local: +5/-2]` */
+const defaultFormat = '${lines}{ (branch: +${branchAdd}/-${branchDel})}{ [local: +${localAdd}/-${localDel}]}';
+
+/** Identifier of the extension, naming its folder in VS Code's global storage */
+const extensionId = 'timoch.timoch-git-stats';
+
+const usage = `Usage: git-stats [options] [directory]
+
+Prints the line count and change statistics of a directory, by default the
+current one, as the Git Stats extension computes them.
+
+Options:
+  --json              Print the statistics as JSON
+  --format <template> Summary template with the status bar tokens, like
+                      '\${lines} \${branch}{ [local: +\${localAdd}/-\${localDel}]}'
+  --cache-dir <dir>   Line count cache directory, shared with VS Code by default
+  --no-cache          Count every file without reading or writing the cache
+  --verbose           Log progress and git errors to stderr
+  --version           Print the version
+  --help              Print this help`;
+
+interface CliOptions {
+    directory: string;
+    json: boolean;
+    format: string;
+    cacheDir: string | null;
+    verbose: boolean;
+}
+
+interface CliOutput {
+    rootPath: string;
+    summary: string;
+    lines: { total: number; code: number; comment: number; blank: number; files: number };
+    gitStats: GitStats | null;
+}
+
+/**
+ * `gitStats.*` values from the extension's defaults, overridden by the VS
+ * Code user settings and then by the nearest `.vscode/settings.json`.
+ */
+class CliSettings implements Settings {
+    private values: Map<string, unknown> = new Map();
+
+    public get<T>(key: string, defaultValue: T): T {
+        return this.values.has(key) ? this.values.get(key) as T : defaultValue;
+    }
+
+    public merge(settings: { [key: string]: unknown }): void {
+        for (const [key, value] of Object.entries(settings)) {
+            if (key.startsWith('gitStats.')) {
+                this.values.set(key.slice('gitStats.'.length), value);
+            }
+        }
+    }
+}
+
+async function main(argv: string[]): Promise<number> {
+    let options: CliOptions;
+    try {
+        const parsed = parseArguments(argv);
+        if (typeof parsed === 'string') {
+            process.stdout.write(`${parsed}\n`);
+            return 0;
+        }
+        options = parsed;
+    } catch (error) {
+        process.stderr.write(`git-stats: ${error instanceof Error ? error.message : error}\n${usage}\n`);
+        return 2;
+    }
+
+    // The engine logs like the extension does; stdout is reserved for the result
+    const log = options.verbose ? console.error.bind(console) : () => undefined;
+    console.log = log;
+    console.error = log;
+
+    const rootPath = normalizeRootPath(options.directory);
+    if (!fs.existsSync(rootPath) || !fs.statSync(rootPath).isDirectory()) {
+        process.stderr.write(`git-stats: ${options.directory} is not a directory\n`);
+        return 1;
+    }
+
+    const settings = await loadSettings(rootPath);
+    sharedGitRunner.setMaxConcurrency(settings.get<number>('maxGitProcesses', defaultMaxGitProcesses));
+
+    const fileCache = options.cacheDir ? new FileLineCache(options.cacheDir) : undefined;
+    const lineCounter = new LineCounter(settings, fileCache);
+    // Diff statistics honour the same filters as the line count
+    const gitManager = new GitManager(rootPath, settings, undefined, relativePath => lineCounter.matchesFilters(relativePath));
+
+    const lineCountResult = await lineCounter.countLines(rootPath);
+    const gitStats = await gitManager.getGitStats();
+    const values = buildTemplateValues([{ gitStats, lineCountResult }], settings.get<LineCountMode>('lineCountMode', 'total'));
+    const summary = renderTemplate(options.format, values).trim();
+
+    if (!options.json) {
+        process.stdout.write(`${summary}\n`);
+        return 0;
+    }
+
+    const output: CliOutput = {
+        rootPath,
+        summary,
+        lines: {
+            total: lineCountResult.totalLines,
+            code: lineCountResult.codeLines,
+            comment: lineCountResult.commentLines,
+            blank: lineCountResult.blankLines,
+            files: lineCountResult.fileCount
+        },
+        gitStats
+    };
+    process.stdout.write(`${JSON.stringify(output, null, 2)}\n`);
+    return 0;
+}
+
+/** The parsed options, or the text to print for `--help` and `--version` */
+function parseArguments(argv: string[]): CliOptions | string {
+    const options: CliOptions = {
+        directory: process.cwd(),
+        json: false,
+        format: defaultFormat,
+        cacheDir: process.env.GIT_STATS_CACHE_DIR || getDefaultCacheDir(),
+        verbose: false
+    };
+    let directory: string | null = null;
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const value = () => {
+            if (i + 1 >= argv.length) {
+                throw new Error(`${arg} requires a value`);
+            }
+            return argv[++i];
+        };
+
+        if (arg === '--help' || arg === '-h') {
+            return usage;
+        } else if (arg === '--version') {
+            return readPackageJson().version || 'unknown';
+        } else if (arg === '--json') {
+            options.json = true;
+        } else if (arg === '--format') {
+            options.format = value();
+        } else if (arg === '--cache-dir') {
+            options.cacheDir = value();
+        } else if (arg === '--no-cache') {
+            options.cacheDir = null;
+        } else if (arg === '--verbose') {
+            options.verbose = true;
+        } else if (arg.startsWith('-')) {
+            throw new Error(`unknown option ${arg}`);
+        } else if (directory === null) {
+            directory = arg;
+        } else {
+            throw new Error(`unexpected argument ${arg}`);
+        }
+    }
+
+    if (directory !== null) {
+        options.directory = directory;
+    }
+    return options;
+}
+
+/**
+ * Resolves the directory like VS Code writes a folder's `fsPath`, with a
+ * lowercase drive letter, so both share the entries of the on-disk cache.
+ */
+function normalizeRootPath(directory: string): string {
+    const resolved = path.resolve(directory);
+    return process.platform === 'win32' ? resolved.replace(/^[A-Z]:/, drive => drive.toLowerCase()) : resolved;
+}
+
+async function loadSettings(rootPath: string): Promise<CliSettings> {
+    const settings = new CliSettings();
+
+    const properties = readPackageJson().contributes?.configuration?.properties || {};
+    settings.merge(Object.fromEntries(
+        Object.entries(properties).map(([key, property]) => [key, property.default])
+    ));
+    settings.merge(await readSettingsFile(path.join(getUserDataDir(), 'settings.json')));
+
+    // Workspace settings of the directory or of the closest parent having some
+    for (let directory = rootPath; ; directory = path.dirname(directory)) {
+        const settingsFile = path.join(directory, '.vscode', 'settings.json');
+        if (fs.existsSync(settingsFile)) {
+            settings.merge(await readSettingsFile(settingsFile));
+            break;
+        }
+        if (path.dirname(directory) === directory || fs.existsSync(path.join(directory, '.git'))) {
+            break;
+        }
+    }
+
+    return settings;
+}
+
+async function readSettingsFile(file: string): Promise<{ [key: string]: unknown }> {
+    try {
+        const settings = parseJsonWithComments(await fs.promises.readFile(file, 'utf8'));
+        return settings && typeof settings === 'object' ? settings as { [key: string]: unknown } : {};
+    } catch {
+        // Missing or unreadable settings
+        return {};
+    }
+}
+
+/** Parses VS Code's settings format: JSON with comments and trailing commas */
+function parseJsonWithComments(content: string): unknown {
+    const trailingComma = /\s*[}\]]/y;
+    let json = '';
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (char === '"') {
+            let end = i + 1;
+            while (end < content.length && content[end] !== '"') {
+                end += content[end] === '\\' ? 2 : 1;
+            }
+            json += content.slice(i, end + 1);
+            i = end;
+        } else if (char === '/' && content[i + 1] === '/') {
+            const end = content.indexOf('\n', i);
+            i = end === -1 ? content.length : end - 1;
+        } else if (char === '/' && content[i + 1] === '*') {
+            const end = content.indexOf('*/', i + 2);
+            i = end === -1 ? content.length : end + 1;
+        } else if (char === ',') {
+            // Trailing commas before a closing bracket are dropped
+            trailingComma.lastIndex = i + 1;
+            if (!trailingComma.test(content)) {
+                json += char;
+            }
+        } else {
+            json += char;
+        }
+    }
+
+    return JSON.parse(json);
+}
+
+interface PackageJson {
+    version?: string;
+    contributes?: { configuration?: { properties?: { [key: string]: { default?: unknown } } } };
+}
+
+function readPackageJson(): PackageJson {
+    try {
+        return JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8')) as PackageJson;
+    } catch {
+        return {};
+    }
+}
+
+/** VS Code's user data directory, holding the user settings and the extensions' global storage */
+function getUserDataDir(): string {
+    const home = os.homedir();
+    if (process.platform === 'win32') {
+        return path.join(process.env.APPDATA || path.join(home, 'AppData', 'Roaming'), 'Code', 'User');
+    }
+    if (process.platform === 'darwin') {
+        return path.join(home, 'Library', 'Application Support', 'Code', 'User');
+    }
+    return path.join(process.env.XDG_CONFIG_HOME || path.join(home, '.config'), 'Code', 'User');
+}
+
+/** The directory the extension keeps its line count cache in */
+function getDefaultCacheDir(): string {
+    return path.join(getUserDataDir(), 'globalStorage', extensionId, 'line-cache');
+}
+
+main(process.argv.slice(2)).then(
+    code => {
+        process.exitCode = code;
+    },
+    error => {
+        process.stderr.write(`git-stats: ${error instanceof Error ? error.message : error}\n`);
+        process.exitCode = 1;
+    }
+);
@@ -0,0 +1,459 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { GitStats } from './gitManager';
+import { GitCancelledError } from './gitRunner';
+import { FileInfo } from './lineCounter';
+import { FolderReport, FolderStats } from './folderPipeline';
+import { LineCountTrend, TrendGranularity } from './lineHistory';
+import { OwnershipReport } from './ownership';
+import { HotspotReport } from './hotspots';
+import { ActivityFilter, ActivityReport } from './activity';
+import { RefComparison } from './refComparison';
+import {
+    CombinedStats,
+    GroupStats,
+    LineCountOverview,
+    SizeBucket,
+    combineFolders,
+    computeOverview,
+    computeSizeBuckets,
+    getLargestFiles,
+    getTimeAgo,
+    groupByLanguage,
+    groupByTopDirectory,
+    percentageOf
+} from './statsAggregator';
+
+export interface DashboardDataSource {
+    /** Builds on the stats of the regular refreshes instead of collecting them again */
+    collectReports(token?: vscode.CancellationToken): Promise<FolderReport[]>;
+    collectTrend(rootPath: string, granularity: TrendGranularity, token?: vscode.CancellationToken): Promise<LineCountTrend>;
+    collectOwnership(rootPath: string, token?: vscode.CancellationToken): Promise<OwnershipReport>;
+    collectActivity(rootPath: string, filter: ActivityFilter, token?: vscode.CancellationToken): Promise<ActivityReport>;
+    onDidUpdateStats: vscode.Event<FolderStats[]>;
+}
+
+/** Sections that load on demand and can be opened directly by a command */
+export type DashboardSection = 'history' | 'ownership' | 'activity';
+
+interface DashboardFile extends FileInfo {
+    percentage: number;
+}
+
+interface DashboardFolder {
+    name: string;
+    rootPath: string;
+    branch: string | null;
+    isMainBranch: boolean;
+    comparisonBase: string | null;
+    commitsAhead: number;
+    commitsBehind: number;
+    upstream: string | null;
+    upstreamAhead: number;
+    upstreamBehind: number;
+    repository: {
+        firstCommitDate: string;
+        ageInDays: number;
+        totalCommits: number;
+        contributors: number;
+    } | null;
+    overview: LineCountOverview;
+    largestFiles: DashboardFile[];
+    languages: GroupStats[];
+    directories: GroupStats[];
+    sizeBuckets: SizeBucket[];
+    recentFiles: Array<{ path: string; timeAgo: string }>;
+    hotspots: HotspotReport;
+    changes: GitStats | null;
+    submodules: DashboardSubmodule[];
+    submodulesInTotals: boolean;
+}
+
+interface DashboardSubmodule {
+    path: string;
+    branch: string | null;
+    lines: number;
+    files: number;
+    branchAdditions: number;
+    branchDeletions: number;
+    localAdditions: number;
+    localDeletions: number;
+}
+
+interface DashboardComparison extends RefComparison {
+    folder: string;
+    /** Changed files before the file list was trimmed */
+    changedFiles: number;
+}
+
+interface DashboardData {
+    generatedAt: string;
+    folders: DashboardFolder[];
+    combined: CombinedStats | null;
+}
+
+/**
+ * Webview panel showing the detailed statistics of every workspace folder.
+ * Only one dashboard exists at a time; it refreshes whenever the stats update.
+ */
+export class DashboardPanel implements vscode.Disposable {
+    public static readonly viewType = 'gitStats.dashboard';
+    private static readonly largestFilesLimit = 100;
+    private static readonly ownershipRowsLimit = 200;
+    private static readonly activityAuthorsLimit = 100;
+    private static readonly comparisonFilesLimit = 500;
+    private static current: DashboardPanel | undefined;
+
+    private panel: vscode.WebviewPanel;
+    private extensionUri: vscode.Uri;
+    private source: DashboardDataSource;
+    private disposables: vscode.Disposable[] = [];
+    private folderRoots: string[] = [];
+    private lastPosted: string | undefined;
+    private refreshing: Promise<void> | undefined;
+    private refreshQueued = false;
+    /** Cancels the git commands of a refresh once the panel closes */
+    private cancellation = new vscode.CancellationTokenSource();
+    private ready = false;
+    private requestedSection: DashboardSection | undefined;
+    private comparison: DashboardComparison | undefined;
+
+    public static createOrShow(extensionUri: vscode.Uri, source: DashboardDataSource, section?: DashboardSection): void {
+        if (DashboardPanel.current) {
+            DashboardPanel.current.panel.reveal();
+            DashboardPanel.current.refresh(true);
+            if (section) {
+                DashboardPanel.current.showSection(section);
+            }
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            DashboardPanel.viewType,
+            'Git Stats',
+            vscode.ViewColumn.Active,
+            {
+                enableScripts: true,
+                localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'media')]
+            }
+        );
+        DashboardPanel.current = new DashboardPanel(panel, extensionUri, source);
+        if (section) {
+            DashboardPanel.current.showSection(section);
+        }
+    }
+
+    /** Opens the dashboard with the result of `Git Stats: Compare Refs` on top */
+    public static showComparison(
+        extensionUri: vscode.Uri,
+        source: DashboardDataSource,
+        folder: vscode.WorkspaceFolder,
+        comparison: RefComparison
+    ): void {
+        DashboardPanel.createOrShow(extensionUri, source);
+        DashboardPanel.current?.setComparison({
+            ...comparison,
+            folder: folder.name,
+            changedFiles: comparison.files.length,
+            files: comparison.files.slice(0, DashboardPanel.comparisonFilesLimit)
+        });
+    }
+
+    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, source: DashboardDataSource) {
+        this.panel = panel;
+        this.extensionUri = extensionUri;
+        this.source = source;
+
+        this.panel.webview.html = this.getHtml(this.panel.webview);
+
+        this.disposables.push(
+            this.panel.onDidDispose(() => this.dispose()),
+            this.panel.onDidChangeViewState(() => {
+                if (this.panel.visible) {
+                    this.refresh(true);
+                }
+            }),
+            this.panel.webview.onDidReceiveMessage(message => this.handleMessage(message)),
+            this.source.onDidUpdateStats(() => {
+                if (this.panel.visible) {
+                    this.refresh(false);
+                }
+            })
+        );
+    }
+
+    /**
+     * Asks the webview to load an on-demand section for every folder, once
+     * the webview has reported that it is ready to receive messages.
+     */
+    private showSection(section: DashboardSection): void {
+        this.requestedSection = section;
+        if (this.ready) {
+            this.requestedSection = undefined;
+            this.panel.webview.postMessage({ type: 'show', section });
+        }
+    }
+
+    /** Kept for the lifetime of the panel, so the webview can render it again after a reload */
+    private setComparison(comparison: DashboardComparison): void {
+        this.comparison = comparison;
+        if (this.ready) {
+            this.panel.webview.postMessage({ type: 'comparison', comparison });
+        }
+    }
+
+    /**
+     * Rebuilds the dashboard data. Concurrent requests are coalesced into a
+     * single follow-up refresh, and unchanged data is not posted again unless forced.
+     */
+    private async refresh(force: boolean): Promise<void> {
+        if (force) {
+            this.lastPosted = undefined;
+        }
+
+        if (this.refreshing) {
+            this.refreshQueued = true;
+            return;
+        }
+
+        this.refreshing = (async () => {
+            try {
+                const reports = await this.source.collectReports(this.cancellation.token);
+                const data = this.buildData(reports);
+                this.folderRoots = data.folders.map(folder => folder.rootPath);
+
+                // Compare without the timestamp so identical stats don't re-render the view
+                const serialized = JSON.stringify({ ...data, generatedAt: '' });
+                if (serialized !== this.lastPosted) {
+                    this.lastPosted = serialized;
+                    await this.panel.webview.postMessage({ type: 'update', data });
+                }
+            } catch (error) {
+                if (error instanceof GitCancelledError) {
+                    return;
+                }
+                console.error('Git Stats: Error refreshing dashboard:', error);
+                await this.panel.webview.postMessage({ type: 'error', message: String(error) });
+            }
+        })();
+
+        await this.refreshing;
+        this.refreshing = undefined;
+
+        if (this.refreshQueued) {
+            this.refreshQueued = false;
+            await this.refresh(false);
+        }
+    }
+
+    private buildData(reports: FolderReport[]): DashboardData {
+        const folders = reports.map(report => this.buildFolder(report));
+
+        const combined = reports.length > 1
+            ? combineFolders(reports.map(report => ({ ...report, name: report.folder.name })))
+            : null;
+
+        return {
+            generatedAt: new Date().toLocaleString(),
+            folders,
+            combined
+        };
+    }
+
+    private buildFolder(report: FolderReport): DashboardFolder {
+        const { gitStats, lineCountResult, repoAge } = report;
+
+        let repository: DashboardFolder['repository'] = null;
+        if (repoAge.firstCommitDate) {
+            repository = {
+                firstCommitDate: repoAge.firstCommitDate.toLocaleDateString(),
+                ageInDays: Math.floor((Date.now() - repoAge.firstCommitDate.getTime()) / (1000 * 60 * 60 * 24)),
+                totalCommits: repoAge.totalCommits,
+                contributors: repoAge.contributors
+            };
+        }
+
+        return {
+            name: report.folder.name,
+            rootPath: report.folder.uri.fsPath,
+            branch: gitStats?.branch ?? null,
+            isMainBranch: gitStats?.isMainBranch ?? false,
+            comparisonBase: gitStats?.comparisonBase ?? null,
+            commitsAhead: gitStats?.commitsAhead ?? 0,
+            commitsBehind: gitStats?.commitsBehind ?? 0,
+            upstream: gitStats?.upstream ?? null,
+            upstreamAhead: gitStats?.upstreamAhead ?? 0,
+            upstreamBehind: gitStats?.upstreamBehind ?? 0,
+            repository,
+            overview: computeOverview(lineCountResult),
+            largestFiles: getLargestFiles(lineCountResult, DashboardPanel.largestFilesLimit).map(file => ({
+                ...file,
+                percentage: percentageOf(file.lines, lineCountResult.totalLines)
+            })),
+            languages: groupByLanguage(lineCountResult),
+            directories: groupByTopDirectory(lineCountResult),
+            sizeBuckets: computeSizeBuckets(lineCountResult),
+            recentFiles: report.recentFiles.map(file => ({ path: file.path, timeAgo: getTimeAgo(file.date) })),
+            hotspots: report.hotspots,
+            changes: gitStats,
+            submodules: report.submodules.map(submodule => {
+                const stats = submodule.gitStats;
+                const onBranch = stats !== null && !stats.isMainBranch;
+                return {
+                    path: submodule.path,
+                    branch: stats?.branch ?? null,
+                    lines: submodule.lineCountResult.totalLines,
+                    files: submodule.lineCountResult.fileCount,
+                    branchAdditions: onBranch ? stats.branchAdditions : 0,
+                    branchDeletions: onBranch ? stats.branchDeletions : 0,
+                    localAdditions: stats ? stats.workingAdditions + stats.untrackedLines : 0,
+                    localDeletions: stats?.workingDeletions ?? 0
+                };
+            }),
+            submodulesInTotals: report.submodulesInTotals
+        };
+    }
+
+    private async handleMessage(message: {
+        type: string;
+        folder?: number;
+        path?: string;
+        granularity?: TrendGranularity;
+        filter?: ActivityFilter;
+    }): Promise<void> {
+        switch (message.type) {
+            case 'ready':
+                this.ready = true;
+                await this.refresh(true);
+                if (this.comparison) {
+                    this.setComparison(this.comparison);
+                }
+                if (this.requestedSection) {
+                    this.showSection(this.requestedSection);
+                }
+                break;
+            case 'compareRefs':
+                await vscode.commands.executeCommand('gitStats.compareRefs');
+                break;
+            case 'closeComparison':
+                this.comparison = undefined;
+                break;
+            case 'refresh':
+                await this.refresh(true);
+                break;
+            case 'loadTrend': {
+                const rootPath = message.folder !== undefined ? this.folderRoots[message.folder] : undefined;
+                if (!rootPath) {
+                    return;
+                }
+                try {
+                    const trend = await this.source.collectTrend(rootPath, message.granularity ?? 'week', this.cancellation.token);
+                    await this.panel.webview.postMessage({ type: 'trend', folder: message.folder, trend });
+                } catch (error) {
+                    if (this.cancellation.token.isCancellationRequested) {
+                        return;
+                    }
+                    await this.panel.webview.postMessage({ type: 'trend', folder: message.folder, error: String(error) });
+                }
+                break;
+            }
+            case 'loadOwnership': {
+                const rootPath = message.folder !== undefined ? this.folderRoots[message.folder] : undefined;
+                if (!rootPath) {
+                    return;
+                }
+                try {
+                    const ownership = this.trimOwnership(await this.source.collectOwnership(rootPath, this.cancellation.token));
+                    await this.panel.webview.postMessage({ type: 'ownership', folder: message.folder, ownership });
+                } catch (error) {
+                    if (this.cancellation.token.isCancellationRequested) {
+                        return;
+                    }
+                    await this.panel.webview.postMessage({ type: 'ownership', folder: message.folder, error: String(error) });
+                }
+                break;
+            }
+            case 'loadActivity': {
+                const rootPath = message.folder !== undefined ? this.folderRoots[message.folder] : undefined;
+                if (!rootPath) {
+                    return;
+                }
+                try {
+                    const activity = await this.source.collectActivity(rootPath, message.filter ?? { type: 'all' }, this.cancellation.token);
+                    activity.authors = activity.authors.slice(0, DashboardPanel.activityAuthorsLimit);
+                    await this.panel.webview.postMessage({ type: 'activity', folder: message.folder, activity });
+                } catch (error) {
+                    if (this.cancellation.token.isCancellationRequested) {
+                        return;
+                    }
+                    await this.panel.webview.postMessage({ type: 'activity', folder: message.folder, error: String(error) });
+                }
+                break;
+            }
+            case 'openFile': {
+                const rootPath = message.folder !== undefined ? this.folderRoots[message.folder] : undefined;
+                if (!rootPath || !message.path) {
+                    return;
+                }
+                const fileUri = vscode.Uri.file(path.join(rootPath, message.path));
+                try {
+                    await vscode.window.showTextDocument(fileUri, { preview: true });
+                } catch {
+                    vscode.window.showWarningMessage(`Git Stats: Could not open ${message.path}`);
+                }
+                break;
+            }
+        }
+    }
+
+    /**
+     * Keeps the largest files and directories so large repositories don't
+     * flood the webview; concentrated directories are always kept.
+     */
+    private trimOwnership(report: OwnershipReport): OwnershipReport {
+        const limit = DashboardPanel.ownershipRowsLimit;
+        return {
+            ...report,
+            files: report.files.slice(0, limit),
+            directories: report.directories.filter((dir, index) => index < limit || dir.concentrated)
+        };
+    }
+
+    private getHtml(webview: vscode.Webview): string {
+        const mediaUri = vscode.Uri.joinPath(this.extensionUri, 'media');
+        const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(mediaUri, 'dashboard.js'));
+        const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(mediaUri, 'dashboard.css'));
+        const nonce = crypto.randomBytes(16).toString('hex');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <link href="${styleUri}" rel="stylesheet">
+    <title>Git Stats</title>
+</head>
+<body>
+    <header>
+        <h1>Git Repository Statistics</h1>
+        <span id="generated-at"></span>
+        <button id="refresh">Refresh</button>
+    </header>
+    <main id="content"><p class="placeholder">Collecting statistics…</p></main>
+    <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+    }
+
+    public dispose(): void {
+        DashboardPanel.current = undefined;
+        this.cancellation.cancel();
+        this.cancellation.dispose();
+        this.panel.dispose();
+        while (this.disposables.length) {
+            this.disposables.pop()?.dispose();
+        }
+    }
+}
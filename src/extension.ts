@@ -1,30 +1,65 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { GitManager, GitStats } from './gitManager';
-import { LineCounter } from './lineCounter';
 import { StatusBarManager } from './statusBarManager';
-import { Cache } from './cache';
+import { FolderPipeline, FolderReport, FolderStats } from './folderPipeline';
+import { FileLineCache } from './fileLineCache';
+import { DashboardDataSource, DashboardPanel, DashboardSection } from './dashboardPanel';
+import { LineCountTreeProvider } from './lineCountTreeProvider';
+import { LineCountDecorationProvider } from './fileDecorationProvider';
+import { showChangedFiles } from './changedFilesPicker';
+import { ChangeBudgetNotifier } from './changeBudgetNotifier';
+import { ExportFormat, buildExport, exportFileExtensions, formatExport } from './statsExporter';
+import { GitCancelledError, defaultMaxGitProcesses, sharedGitRunner } from './gitRunner';
+import { RangeNotation, RefList } from './gitManager';
+
+type FetchPolicy = 'never' | 'scheduled' | 'onDemand';
+
+/** Latest commits of HEAD offered by the ref pickers of `Git Stats: Compare Refs` */
+const recentCommitsLimit = 30;
 
 let statusBarManager: StatusBarManager | undefined;
 let updateTimer: NodeJS.Timer | undefined;
-let gitManager: GitManager | undefined;
-let lineCounter: LineCounter | undefined;
-let cache: Cache | undefined;
+let fetchTimer: NodeJS.Timer | undefined;
+let fileCache: FileLineCache | undefined;
+let workspaceState: vscode.Memento | undefined;
+const pipelines = new Map<string, FolderPipeline>();
+const statsUpdated = new vscode.EventEmitter<FolderStats[]>();
+
+// Latest stats per folder, so a refresh only recollects the folders that changed
+const latestStats = new Map<string, FolderStats>();
+const pendingRoots = new Set<string>();
+let runningUpdate: Promise<void> | undefined;
+const debounceTimers = new Map<string, NodeJS.Timeout>();
+// Collections in progress per folder, cancelled when a newer refresh of the folder is requested
+const runningCollections = new Map<string, vscode.CancellationTokenSource>();
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Git Stats extension is now active!');
     vscode.window.showInformationMessage('Git Stats extension activated!');
 
     // Initialize components
-    lineCounter = new LineCounter();
-    cache = new Cache();
-    statusBarManager = new StatusBarManager(lineCounter);
-
-    // Get initial workspace folder
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (workspaceFolder) {
-        console.log('Git Stats: Found workspace folder:', workspaceFolder.uri.fsPath);
-        gitManager = new GitManager(workspaceFolder);
+    fileCache = new FileLineCache(path.join(context.globalStorageUri.fsPath, 'line-cache'));
+    workspaceState = context.workspaceState;
+    statusBarManager = new StatusBarManager();
+    updateGitProcessLimit();
+
+    // Explorer view with line counts per directory
+    const lineCountTree = new LineCountTreeProvider();
+    const lineCountTreeView = vscode.window.registerTreeDataProvider(LineCountTreeProvider.viewId, lineCountTree);
+    const lineCountTreeListener = statsUpdated.event(folderStats => lineCountTree.update(folderStats));
+
+    // Line count and change badges on Explorer entries
+    const decorationProvider = new LineCountDecorationProvider();
+    const decorationRegistration = vscode.window.registerFileDecorationProvider(decorationProvider);
+    const decorationListener = statsUpdated.event(folderStats => decorationProvider.update(folderStats));
+
+    // Suggest splitting the work when changes exceed the configured budgets
+    const budgetNotifier = new ChangeBudgetNotifier();
+    const budgetListener = statsUpdated.event(folderStats => budgetNotifier.update(folderStats));
+
+    // Create one pipeline per workspace folder
+    syncPipelines();
+    if (pipelines.size > 0) {
         startMonitoring();
     } else {
         console.log('Git Stats: No workspace folder found');
@@ -35,50 +70,88 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Register commands
     const refreshCommand = vscode.commands.registerCommand('gitStats.refresh', async () => {
-        cache?.clear();
         await updateStats();
         vscode.window.showInformationMessage('Git Stats refreshed!');
     });
 
-    const showDetailsCommand = vscode.commands.registerCommand('gitStats.showDetails', async () => {
-        await showDetailedStats();
+    const showDetailsCommand = vscode.commands.registerCommand('gitStats.showDetails', () => {
+        showDetailedStats(context.extensionUri);
+    });
+
+    const showHistoryCommand = vscode.commands.registerCommand('gitStats.showHistory', () => {
+        showDetailedStats(context.extensionUri, 'history');
+    });
+
+    const showOwnershipCommand = vscode.commands.registerCommand('gitStats.showOwnership', () => {
+        showDetailedStats(context.extensionUri, 'ownership');
+    });
+
+    const showActivityCommand = vscode.commands.registerCommand('gitStats.showActivity', () => {
+        showDetailedStats(context.extensionUri, 'activity');
     });
 
-    const clearCacheCommand = vscode.commands.registerCommand('gitStats.clearCache', () => {
-        cache?.clear();
+    const exportCommand = vscode.commands.registerCommand('gitStats.export', async () => {
+        await exportStats();
+    });
+
+    const selectComparisonBaseCommand = vscode.commands.registerCommand('gitStats.selectComparisonBase', async () => {
+        await selectComparisonBase();
+    });
+
+    const fetchCommand = vscode.commands.registerCommand('gitStats.fetchAndRecompare', async () => {
+        await fetchAndRecompare(true);
+    });
+
+    const showChangedFilesCommand = vscode.commands.registerCommand('gitStats.showChangedFiles', async () => {
+        await selectChangedFile();
+    });
+
+    const compareRefsCommand = vscode.commands.registerCommand('gitStats.compareRefs', async () => {
+        await compareRefs(context.extensionUri);
+    });
+
+    const clearCacheCommand = vscode.commands.registerCommand('gitStats.clearCache', async () => {
+        await fileCache?.clear();
         vscode.window.showInformationMessage('Git Stats cache cleared!');
     });
 
     // Register configuration change listener
     const configChangeListener = vscode.workspace.onDidChangeConfiguration(e => {
         if (e.affectsConfiguration('gitStats')) {
-            lineCounter?.updateConfiguration();
+            updateGitProcessLimit();
+            pipelines.forEach(pipeline => pipeline.updateConfiguration());
             statusBarManager?.updateConfiguration();
-            cache?.clear();
+            decorationProvider.updateConfiguration();
             
-            // Restart monitoring with new interval
+            // Restart monitoring with the new polling settings
             stopMonitoring();
             startMonitoring();
+            updateStats();
         }
     });
 
     // Register workspace change listeners
     const workspaceFolderChangeListener = vscode.workspace.onDidChangeWorkspaceFolders(() => {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (workspaceFolder) {
-            gitManager = new GitManager(workspaceFolder);
-            cache?.clear();
-            updateStats();
+        syncPipelines();
+        if (!updateTimer && pipelines.size > 0) {
+            startMonitoring();
         }
+        updateStats();
     });
 
     // Register file system watchers
     const fileWatcher = vscode.workspace.createFileSystemWatcher('**/*', false, false, false);
     
-    const onFileChange = () => {
-        // Clear cache on file changes
-        if (vscode.workspace.workspaceFolders?.[0]) {
-            cache?.clearForWorkspace(vscode.workspace.workspaceFolders[0].uri.fsPath);
+    const onFileChange = (uri: vscode.Uri) => {
+        // Git state is covered by the repository watchers of each pipeline
+        if (/\/\.git(\/|$)/.test(uri.path)) {
+            return;
+        }
+
+        // Refresh the folder that owns the changed file once edits settle
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+        if (workspaceFolder) {
+            scheduleUpdate(workspaceFolder.uri.fsPath);
         }
     };
 
@@ -86,28 +159,65 @@ export function activate(context: vscode.ExtensionContext) {
     fileWatcher.onDidChange(onFileChange);
     fileWatcher.onDidDelete(onFileChange);
 
-    // Register active editor change listener for faster updates
-    const activeEditorChangeListener = vscode.window.onDidChangeActiveTextEditor(() => {
-        updateStats();
-    });
-
     // Add to subscriptions
     context.subscriptions.push(
         refreshCommand,
         showDetailsCommand,
+        showHistoryCommand,
+        showOwnershipCommand,
+        showActivityCommand,
+        exportCommand,
+        selectComparisonBaseCommand,
+        showChangedFilesCommand,
+        fetchCommand,
+        compareRefsCommand,
         clearCacheCommand,
         configChangeListener,
         workspaceFolderChangeListener,
         fileWatcher,
-        activeEditorChangeListener,
-        statusBarManager
+        statusBarManager,
+        lineCountTree,
+        lineCountTreeView,
+        lineCountTreeListener,
+        decorationProvider,
+        decorationRegistration,
+        decorationListener,
+        budgetListener,
+        statsUpdated
     );
 
     // Initial update
     updateStats();
 }
 
+function syncPipelines() {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const currentRoots = new Set(folders.map(folder => folder.uri.fsPath));
+
+    // Drop pipelines for folders that were removed from the workspace
+    for (const root of Array.from(pipelines.keys())) {
+        if (!currentRoots.has(root)) {
+            pipelines.get(root)?.dispose();
+            pipelines.delete(root);
+            latestStats.delete(root);
+        }
+    }
+
+    // Add pipelines for new folders
+    for (const folder of folders) {
+        if (!pipelines.has(folder.uri.fsPath)) {
+            console.log('Git Stats: Found workspace folder:', folder.uri.fsPath);
+            const pipeline = new FolderPipeline(folder, fileCache, workspaceState);
+            pipelines.set(folder.uri.fsPath, pipeline);
+            pipeline.watchRepository(() => scheduleUpdate(pipeline.rootPath));
+        }
+    }
+}
+
 function startMonitoring() {
+    // Restarting must not leave the previous intervals running
+    clearMonitoringTimers();
+
     const config = vscode.workspace.getConfiguration('gitStats');
     const enabled = config.get<boolean>('enabled', true);
     
@@ -117,283 +227,525 @@ function startMonitoring() {
     }
 
     statusBarManager?.show();
+
+    // Remote-tracking refs are only fetched on schedule when asked to
+    if (config.get<FetchPolicy>('fetchPolicy', 'onDemand') === 'scheduled') {
+        const fetchInterval = Math.max(1, config.get<number>('fetchInterval', 15)) * 60 * 1000;
+        fetchTimer = setInterval(() => {
+            fetchAndRecompare(false);
+        }, fetchInterval);
+    }
+
+    // Refreshes are driven by file and git state changes, polling is only a fallback
+    if (!config.get<boolean>('enablePolling', false)) {
+        return;
+    }
     
     const updateInterval = Math.max(1000, config.get<number>('updateInterval', 5000));
     
+    // Polling never cancels a running collection, which could otherwise be restarted forever
     updateTimer = setInterval(() => {
-        updateStats();
+        updateStats(undefined, false);
     }, updateInterval);
 }
 
 function stopMonitoring() {
+    clearMonitoringTimers();
+    debounceTimers.forEach(timer => clearTimeout(timer));
+    debounceTimers.clear();
+}
+
+function clearMonitoringTimers() {
     if (updateTimer) {
         clearInterval(updateTimer);
         updateTimer = undefined;
     }
+    if (fetchTimer) {
+        clearInterval(fetchTimer);
+        fetchTimer = undefined;
+    }
+}
+
+/**
+ * Refreshes a folder once its changes settle, so a burst of file events or a
+ * checkout touching many refs results in a single update.
+ */
+function scheduleUpdate(rootPath: string) {
+    const delay = Math.max(0, vscode.workspace.getConfiguration('gitStats').get<number>('refreshDelay', 1000));
+
+    const timer = debounceTimers.get(rootPath);
+    if (timer) {
+        clearTimeout(timer);
+    }
+    debounceTimers.set(rootPath, setTimeout(() => {
+        debounceTimers.delete(rootPath);
+        updateStats([rootPath]);
+    }, delay));
+}
+
+/**
+ * Refreshes the given folders, or all of them. Requests arriving while an
+ * update runs are merged into one follow-up pass instead of overlapping it;
+ * unless told otherwise they cancel the collection of their folders in the
+ * running pass, whose results would already be outdated.
+ */
+function updateStats(rootPaths?: string[], cancelRunning: boolean = true): Promise<void> {
+    for (const root of rootPaths ?? Array.from(pipelines.keys())) {
+        pendingRoots.add(root);
+        if (cancelRunning) {
+            runningCollections.get(root)?.cancel();
+        }
+    }
+
+    if (!runningUpdate) {
+        runningUpdate = runPendingUpdates().finally(() => {
+            runningUpdate = undefined;
+        });
+    }
+    return runningUpdate;
 }
 
-async function updateStats() {
+async function runPendingUpdates() {
+    while (pendingRoots.size > 0) {
+        const roots = Array.from(pendingRoots);
+        pendingRoots.clear();
+        await collectStats(roots);
+    }
+}
+
+async function collectStats(rootPaths: string[]) {
     const config = vscode.workspace.getConfiguration('gitStats');
     const enabled = config.get<boolean>('enabled', true);
     
-    if (!enabled || !statusBarManager || !lineCounter || !gitManager) {
+    if (!enabled || !statusBarManager) {
         return;
     }
 
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
+    if (pipelines.size === 0) {
         statusBarManager.hide();
         return;
     }
 
     try {
-        // Get git information for cache key
-        const gitHead = await gitManager.getCurrentHead();
-        const gitStatus = await gitManager.getStatus();
-        
-        // Check cache
-        let lineCountResult = cache?.get(workspaceFolder.uri.fsPath, gitHead, gitStatus);
-        
-        if (!lineCountResult) {
-            // Count lines
-            lineCountResult = await lineCounter.countLines(workspaceFolder);
-            
-            // Update cache
-            cache?.set(workspaceFolder.uri.fsPath, gitHead, gitStatus, lineCountResult);
-        }
+        const refreshed = await Promise.all(
+            rootPaths
+                .map(root => pipelines.get(root))
+                .filter((pipeline): pipeline is FolderPipeline => pipeline !== undefined)
+                .map(pipeline => collectFolder(pipeline))
+        );
+        refreshed.forEach(stats => {
+            if (stats) {
+                latestStats.set(stats.folder.uri.fsPath, stats);
+            }
+        });
 
-        // Get git stats
-        const gitStats = await gitManager.getGitStats();
+        // Folders that were removed while collecting are dropped here
+        const folderStats = Array.from(pipelines.keys())
+            .map(root => latestStats.get(root))
+            .filter((stats): stats is FolderStats => stats !== undefined);
 
         // Update status bar
-        statusBarManager.update(gitStats, lineCountResult.totalLines);
+        statusBarManager.update(folderStats);
+        statsUpdated.fire(folderStats);
     } catch (error) {
         console.error('Error updating Git Stats:', error);
     }
 }
 
-async function showDetailedStats() {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder || !gitManager || !lineCounter) {
+/** Collects one folder; null when a newer refresh cancelled it, keeping its previous stats */
+async function collectFolder(pipeline: FolderPipeline): Promise<FolderStats | null> {
+    const cancellation = new vscode.CancellationTokenSource();
+    runningCollections.set(pipeline.rootPath, cancellation);
+    try {
+        return await pipeline.collect(cancellation.token);
+    } catch (error) {
+        if (cancellation.token.isCancellationRequested) {
+            console.log(`Git Stats: Refresh of ${pipeline.rootPath} superseded by a newer one`);
+            return null;
+        }
+        throw error;
+    } finally {
+        runningCollections.delete(pipeline.rootPath);
+        cancellation.dispose();
+    }
+}
+
+function updateGitProcessLimit() {
+    const maxProcesses = vscode.workspace.getConfiguration('gitStats').get<number>('maxGitProcesses', defaultMaxGitProcesses);
+    sharedGitRunner.setMaxConcurrency(maxProcesses);
+}
+
+function showDetailedStats(extensionUri: vscode.Uri, section?: DashboardSection) {
+    if (pipelines.size === 0) {
+        vscode.window.showWarningMessage('No workspace folder open');
+        return;
+    }
+
+    DashboardPanel.createOrShow(extensionUri, getDashboardSource(), section);
+}
+
+/**
+ * Reports of every folder from the stats the refreshes already collected.
+ * A folder is only collected here before its first refresh completed, or
+ * while the statistics are disabled.
+ */
+function collectReports(token?: vscode.CancellationToken): Promise<FolderReport[]> {
+    return Promise.all(Array.from(pipelines.values()).map(async pipeline => {
+        const stats = latestStats.get(pipeline.rootPath) ?? await pipeline.collect(token);
+        return pipeline.collectReport(stats, token);
+    }));
+}
+
+function getDashboardSource(): DashboardDataSource {
+    return {
+        collectReports,
+        collectTrend: async (rootPath, granularity, token) => {
+            const pipeline = pipelines.get(rootPath);
+            if (!pipeline) {
+                throw new Error(`No workspace folder at ${rootPath}`);
+            }
+            return pipeline.collectTrend(granularity, token);
+        },
+        collectOwnership: async (rootPath, token) => {
+            const pipeline = pipelines.get(rootPath);
+            if (!pipeline) {
+                throw new Error(`No workspace folder at ${rootPath}`);
+            }
+            return vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Notification,
+                    title: `Git Stats: Analyzing ownership of ${pipeline.folder.name}`,
+                    cancellable: true
+                },
+                async (progress, progressToken) => {
+                    // Stops when the notification is cancelled or the dashboard closed
+                    const cancellation = new vscode.CancellationTokenSource();
+                    const listeners = [token, progressToken].map(source => source?.onCancellationRequested(() => cancellation.cancel()));
+                    if (token?.isCancellationRequested || progressToken.isCancellationRequested) {
+                        cancellation.cancel();
+                    }
+
+                    let reported = 0;
+                    try {
+                        return await pipeline.collectOwnership((done, total) => {
+                            const percentage = Math.floor((done / total) * 100);
+                            progress.report({ message: `${done}/${total} files`, increment: percentage - reported });
+                            reported = percentage;
+                        }, cancellation.token);
+                    } finally {
+                        listeners.forEach(listener => listener?.dispose());
+                        cancellation.dispose();
+                    }
+                }
+            );
+        },
+        collectActivity: async (rootPath, filter, token) => {
+            const pipeline = pipelines.get(rootPath);
+            if (!pipeline) {
+                throw new Error(`No workspace folder at ${rootPath}`);
+            }
+            return pipeline.collectActivity(filter, token);
+        },
+        onDidUpdateStats: statsUpdated.event
+    };
+}
+
+async function exportStats() {
+    if (pipelines.size === 0) {
         vscode.window.showWarningMessage('No workspace folder open');
         return;
     }
 
-    const outputChannel = vscode.window.createOutputChannel('Git Stats');
-    outputChannel.clear();
-    outputChannel.show();
+    const choice = await vscode.window.showQuickPick(
+        [
+            { label: 'JSON', description: 'Full statistics following the documented export schema', format: 'json' as ExportFormat },
+            { label: 'CSV', description: 'One row per counted file', format: 'csv' as ExportFormat },
+            { label: 'Markdown', description: 'Summary report for wikis and pull requests', format: 'markdown' as ExportFormat }
+        ],
+        { placeHolder: 'Select the export format' }
+    );
+    if (!choice) {
+        return;
+    }
 
-    outputChannel.appendLine('╔══════════════════════════════════════════════════════════════════════════════╗');
-    outputChannel.appendLine('║                         Git Repository Statistics                            ║');
-    outputChannel.appendLine('╚══════════════════════════════════════════════════════════════════════════════╝\n');
+    const firstFolder = Array.from(pipelines.values())[0].folder;
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.joinPath(firstFolder.uri, `git-stats.${exportFileExtensions[choice.format]}`),
+        filters: { [choice.label]: [exportFileExtensions[choice.format]] }
+    });
+    if (!target) {
+        return;
+    }
 
     try {
-        // Get git stats
-        const gitStats = await gitManager.getGitStats();
-        
-        // Count lines
-        const lineCountResult = await lineCounter.countLines(workspaceFolder);
-        
-        // Get repository age and activity
-        const repoAge = await gitManager.getRepositoryAge();
-        
-        // Get recently modified files
-        const recentFiles = await gitManager.getRecentlyModifiedFiles(10);
-        
-        // === BASIC INFORMATION ===
-        outputChannel.appendLine('┌─────────────────────────────────────────────────────────────────────────────┐');
-        outputChannel.appendLine('│ REPOSITORY INFORMATION                                                      │');
-        outputChannel.appendLine('└─────────────────────────────────────────────────────────────────────────────┘');
-        outputChannel.appendLine(`  Workspace: ${workspaceFolder.name}`);
-        outputChannel.appendLine(`  Path: ${workspaceFolder.uri.fsPath}`);
-        
-        if (gitStats) {
-            outputChannel.appendLine(`  Current Branch: ${gitStats.branch}`);
-            outputChannel.appendLine(`  Is Main Branch: ${gitStats.isMainBranch ? 'Yes' : 'No'}`);
+        const content = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Git Stats: Exporting statistics' },
+            async () => {
+                const reports = await collectReports();
+                return formatExport(buildExport(reports), choice.format);
+            }
+        );
+        await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf-8'));
+
+        const action = await vscode.window.showInformationMessage(`Git Stats exported to ${target.fsPath}`, 'Open');
+        if (action === 'Open') {
+            await vscode.window.showTextDocument(target);
         }
-        
-        if (repoAge.firstCommitDate) {
-            const ageInDays = Math.floor((Date.now() - repoAge.firstCommitDate.getTime()) / (1000 * 60 * 60 * 24));
-            outputChannel.appendLine(`  Repository Age: ${ageInDays} days (since ${repoAge.firstCommitDate.toLocaleDateString()})`);
-            outputChannel.appendLine(`  Total Commits: ${repoAge.totalCommits.toLocaleString()}`);
-            outputChannel.appendLine(`  Contributors: ${repoAge.contributors}`);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Git Stats: Export failed: ${error}`);
+    }
+}
+
+async function pickPipeline(placeHolder: string): Promise<FolderPipeline | undefined> {
+    const all = Array.from(pipelines.values());
+    if (all.length <= 1) {
+        return all[0];
+    }
+
+    const choice = await vscode.window.showQuickPick(
+        all.map(pipeline => ({ label: pipeline.folder.name, description: pipeline.rootPath, pipeline })),
+        { placeHolder }
+    );
+    return choice?.pipeline;
+}
+
+async function selectComparisonBase() {
+    if (pipelines.size === 0) {
+        vscode.window.showWarningMessage('No workspace folder open');
+        return;
+    }
+
+    const pipeline = await pickPipeline('Select the workspace folder');
+    if (!pipeline) {
+        return;
+    }
+
+    const gitManager = pipeline.gitManager;
+    let branch: string;
+    let branches: { local: string[]; remote: string[] };
+    let upstream: string | null;
+    try {
+        branch = await gitManager.getCurrentBranch();
+        branches = await gitManager.listBranches();
+        upstream = await gitManager.getUpstreamBranch();
+    } catch (error) {
+        vscode.window.showErrorMessage(`Git Stats: Could not list branches: ${error}`);
+        return;
+    }
+
+    const current = gitManager.getRememberedBase(branch);
+    const items: Array<vscode.QuickPickItem & { ref?: string }> = [
+        { label: '$(sync) Automatic', description: 'Use the gitStats.comparisonStrategy setting', ref: undefined }
+    ];
+    const seen = new Set<string>();
+    const addItem = (ref: string, description: string) => {
+        if (ref === branch || seen.has(ref)) {
+            return;
         }
-        
-        // === OVERALL STATISTICS ===
-        outputChannel.appendLine('\n┌─────────────────────────────────────────────────────────────────────────────┐');
-        outputChannel.appendLine('│ OVERALL STATISTICS                                                          │');
-        outputChannel.appendLine('└─────────────────────────────────────────────────────────────────────────────┘');
-        outputChannel.appendLine(`  Total Lines: ${lineCountResult.totalLines.toLocaleString()} (${lineCounter.formatLineCount(lineCountResult.totalLines)})`);
-        outputChannel.appendLine(`  Total Files: ${lineCountResult.fileCount.toLocaleString()}`);
-        
-        if (lineCountResult.fileCount > 0) {
-            const avgLinesPerFile = Math.round(lineCountResult.totalLines / lineCountResult.fileCount);
-            outputChannel.appendLine(`  Average Lines/File: ${avgLinesPerFile.toLocaleString()}`);
-            
-            // Calculate median
-            const sortedFiles = [...lineCountResult.files].sort((a, b) => a.lines - b.lines);
-            const medianLines = sortedFiles[Math.floor(sortedFiles.length / 2)].lines;
-            outputChannel.appendLine(`  Median Lines/File: ${medianLines.toLocaleString()}`);
-            
-            // Calculate standard deviation
-            const mean = lineCountResult.totalLines / lineCountResult.fileCount;
-            const variance = lineCountResult.files.reduce((acc, file) => acc + Math.pow(file.lines - mean, 2), 0) / lineCountResult.fileCount;
-            const stdDev = Math.round(Math.sqrt(variance));
-            outputChannel.appendLine(`  Std Deviation: ${stdDev.toLocaleString()}`);
+        seen.add(ref);
+        items.push({ label: ref, description: ref === current ? `${description} (current)` : description, ref });
+    };
+
+    if (upstream) {
+        addItem(upstream, 'Upstream');
+    }
+    for (const candidate of gitManager.candidateBranches.filter(name => !name.includes('*'))) {
+        if (branches.local.includes(candidate)) {
+            addItem(candidate, 'Base branch candidate');
         }
-        
-        // === TOP 20 LARGEST FILES ===
-        outputChannel.appendLine('\n┌─────────────────────────────────────────────────────────────────────────────┐');
-        outputChannel.appendLine('│ TOP 20 LARGEST FILES                                                        │');
-        outputChannel.appendLine('└─────────────────────────────────────────────────────────────────────────────┘');
-        
-        const top20Files = [...lineCountResult.files]
-            .sort((a, b) => b.lines - a.lines)
-            .slice(0, 20);
-        
-        const maxPathLength = Math.min(50, Math.max(...top20Files.map(f => f.path.length)));
-        
-        top20Files.forEach((file, index) => {
-            const displayPath = file.path.length > 50 
-                ? '...' + file.path.slice(-(50 - 3))
-                : file.path;
-            const percentage = ((file.lines / lineCountResult.totalLines) * 100).toFixed(1);
-            const bar = '█'.repeat(Math.floor(parseFloat(percentage) / 2));
-            outputChannel.appendLine(`  ${String(index + 1).padStart(2)}. ${displayPath.padEnd(maxPathLength)} │ ${String(file.lines).padStart(6)} lines (${percentage.padStart(5)}%) ${bar}`);
-        });
-        
-        // === LANGUAGE/EXTENSION DISTRIBUTION ===
-        outputChannel.appendLine('\n┌─────────────────────────────────────────────────────────────────────────────┐');
-        outputChannel.appendLine('│ LANGUAGE DISTRIBUTION                                                       │');
-        outputChannel.appendLine('└─────────────────────────────────────────────────────────────────────────────┘');
-        
-        const extensionStats = new Map<string, { count: number; lines: number }>();
-        lineCountResult.files.forEach(file => {
-            const stats = extensionStats.get(file.extension) || { count: 0, lines: 0 };
-            stats.count++;
-            stats.lines += file.lines;
-            extensionStats.set(file.extension, stats);
-        });
-        
-        const sortedExtensions = Array.from(extensionStats.entries())
-            .sort((a, b) => b[1].lines - a[1].lines)
-            .slice(0, 15);
-        
-        sortedExtensions.forEach(([ext, stats]) => {
-            const percentage = ((stats.lines / lineCountResult.totalLines) * 100).toFixed(1);
-            const bar = '█'.repeat(Math.floor(parseFloat(percentage)));
-            outputChannel.appendLine(`  .${ext.padEnd(10)} │ ${String(stats.count).padStart(4)} files, ${String(stats.lines).padStart(7)} lines (${percentage.padStart(5)}%) ${bar}`);
-        });
-        
-        // === DIRECTORY STATISTICS ===
-        outputChannel.appendLine('\n┌─────────────────────────────────────────────────────────────────────────────┐');
-        outputChannel.appendLine('│ TOP DIRECTORIES BY LINE COUNT                                               │');
-        outputChannel.appendLine('└─────────────────────────────────────────────────────────────────────────────┘');
-        
-        const dirStats = new Map<string, { count: number; lines: number }>();
-        lineCountResult.files.forEach(file => {
-            const dir = path.dirname(file.path);
-            const topDir = dir.split(path.sep)[0] || '.';
-            const stats = dirStats.get(topDir) || { count: 0, lines: 0 };
-            stats.count++;
-            stats.lines += file.lines;
-            dirStats.set(topDir, stats);
-        });
-        
-        const sortedDirs = Array.from(dirStats.entries())
-            .sort((a, b) => b[1].lines - a[1].lines)
-            .slice(0, 10);
-        
-        sortedDirs.forEach(([dir, stats]) => {
-            const percentage = ((stats.lines / lineCountResult.totalLines) * 100).toFixed(1);
-            const displayDir = dir.length > 40 ? dir.slice(0, 37) + '...' : dir;
-            outputChannel.appendLine(`  ${displayDir.padEnd(40)} │ ${String(stats.count).padStart(4)} files, ${String(stats.lines).padStart(7)} lines (${percentage.padStart(5)}%)`);
-        });
-        
-        // === FILE SIZE DISTRIBUTION ===
-        outputChannel.appendLine('\n┌─────────────────────────────────────────────────────────────────────────────┐');
-        outputChannel.appendLine('│ FILE SIZE DISTRIBUTION                                                      │');
-        outputChannel.appendLine('└─────────────────────────────────────────────────────────────────────────────┘');
-        
-        const buckets = [
-            { label: '1-50 lines', min: 1, max: 50, count: 0 },
-            { label: '51-100 lines', min: 51, max: 100, count: 0 },
-            { label: '101-200 lines', min: 101, max: 200, count: 0 },
-            { label: '201-500 lines', min: 201, max: 500, count: 0 },
-            { label: '501-1000 lines', min: 501, max: 1000, count: 0 },
-            { label: '1000+ lines', min: 1001, max: Infinity, count: 0 }
-        ];
-        
-        lineCountResult.files.forEach(file => {
-            const bucket = buckets.find(b => file.lines >= b.min && file.lines <= b.max);
-            if (bucket) bucket.count++;
-        });
-        
-        const maxBucketCount = Math.max(...buckets.map(b => b.count));
-        buckets.forEach(bucket => {
-            const percentage = ((bucket.count / lineCountResult.fileCount) * 100).toFixed(1);
-            const barLength = Math.floor((bucket.count / maxBucketCount) * 40);
-            const bar = '█'.repeat(barLength);
-            outputChannel.appendLine(`  ${bucket.label.padEnd(15)} │ ${String(bucket.count).padStart(4)} files (${percentage.padStart(5)}%) ${bar}`);
-        });
-        
-        // === RECENTLY MODIFIED FILES ===
-        if (recentFiles.length > 0) {
-            outputChannel.appendLine('\n┌─────────────────────────────────────────────────────────────────────────────┐');
-            outputChannel.appendLine('│ RECENTLY MODIFIED FILES                                                     │');
-            outputChannel.appendLine('└─────────────────────────────────────────────────────────────────────────────┘');
-            
-            recentFiles.forEach((file, index) => {
-                const displayPath = file.path.length > 50 
-                    ? '...' + file.path.slice(-(50 - 3))
-                    : file.path;
-                const timeAgo = getTimeAgo(file.date);
-                outputChannel.appendLine(`  ${String(index + 1).padStart(2)}. ${displayPath.padEnd(50)} │ ${timeAgo}`);
-            });
+    }
+    branches.local.forEach(name => addItem(name, 'Local branch'));
+    branches.remote.forEach(name => addItem(`${gitManager.remoteName}/${name}`, 'Remote branch'));
+
+    const choice = await vscode.window.showQuickPick(items, {
+        placeHolder: `Compare branch ${branch} against`,
+        matchOnDescription: true
+    });
+    if (!choice) {
+        return;
+    }
+
+    await gitManager.setRememberedBase(branch, choice.ref);
+    await updateStats();
+}
+
+/**
+ * Fetches the comparison remote of every folder, then recomputes the stats.
+ * Scheduled fetches run silently; failures are only reported for the command.
+ */
+async function fetchAndRecompare(interactive: boolean) {
+    if (pipelines.size === 0) {
+        if (interactive) {
+            vscode.window.showWarningMessage('No workspace folder open');
         }
-        
-        // === GIT WORKING DIRECTORY ===
-        if (gitStats) {
-            outputChannel.appendLine('\n┌─────────────────────────────────────────────────────────────────────────────┐');
-            outputChannel.appendLine('│ GIT WORKING DIRECTORY STATUS                                                │');
-            outputChannel.appendLine('└─────────────────────────────────────────────────────────────────────────────┘');
-            
-            outputChannel.appendLine('  Branch Changes:');
-            outputChannel.appendLine(`    Lines Added: +${gitStats.branchAdditions.toLocaleString()}`);
-            outputChannel.appendLine(`    Lines Removed: -${gitStats.branchDeletions.toLocaleString()}`);
-            outputChannel.appendLine(`    Net Change: ${(gitStats.branchAdditions - gitStats.branchDeletions).toLocaleString()}`);
-            
-            outputChannel.appendLine('\n  Uncommitted Changes:');
-            outputChannel.appendLine(`    Staged/Unstaged Added: +${gitStats.workingAdditions.toLocaleString()}`);
-            outputChannel.appendLine(`    Staged/Unstaged Removed: -${gitStats.workingDeletions.toLocaleString()}`);
-            outputChannel.appendLine(`    Untracked Lines: ${gitStats.untrackedLines.toLocaleString()}`);
-            outputChannel.appendLine(`    Total Uncommitted: ${(gitStats.workingAdditions + gitStats.untrackedLines - gitStats.workingDeletions).toLocaleString()}`);
+        return;
+    }
+
+    if (vscode.workspace.getConfiguration('gitStats').get<FetchPolicy>('fetchPolicy', 'onDemand') === 'never') {
+        if (interactive) {
+            vscode.window.showWarningMessage('Git Stats: Fetching is disabled by the gitStats.fetchPolicy setting');
         }
+        return;
+    }
+
+    const fetchAll = async () => {
+        const failures: string[] = [];
+        await Promise.all(Array.from(pipelines.values()).map(async pipeline => {
+            if (!await pipeline.gitManager.isGitRepository()) {
+                return;
+            }
+            try {
+                await pipeline.gitManager.fetch();
+            } catch (error) {
+                console.log(`Git Stats: Could not fetch ${pipeline.folder.name}:`, error);
+                failures.push(pipeline.folder.name);
+            }
+        }));
+        return failures;
+    };
+
+    const failures = interactive
+        ? await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: 'Git Stats: Fetching remote branches' },
+            fetchAll
+        )
+        : await fetchAll();
 
+    await updateStats();
+
+    if (interactive && failures.length > 0) {
+        vscode.window.showWarningMessage(`Git Stats: Could not fetch ${failures.join(', ')}; comparing against the last fetched refs`);
+    }
+}
+
+/**
+ * Compares two refs of a folder, picked among its branches, tags and
+ * recent commits, and shows the result in the dashboard.
+ */
+async function compareRefs(extensionUri: vscode.Uri) {
+    if (pipelines.size === 0) {
+        vscode.window.showWarningMessage('No workspace folder open');
+        return;
+    }
+
+    const pipeline = await pickPipeline('Select the workspace folder');
+    if (!pipeline) {
+        return;
+    }
+    if (!await pipeline.gitManager.isGitRepository()) {
+        vscode.window.showWarningMessage(`Git Stats: ${pipeline.folder.name} is not a git repository`);
+        return;
+    }
+
+    let refs: RefList;
+    try {
+        refs = await pipeline.gitManager.listRefs(recentCommitsLimit);
     } catch (error) {
-        outputChannel.appendLine(`\nError: ${error}`);
+        vscode.window.showErrorMessage(`Git Stats: Could not list refs: ${error}`);
+        return;
+    }
+
+    const from = await pickRef(refs, 'Compare from: branch, tag or commit');
+    if (!from) {
+        return;
+    }
+    const to = await pickRef(refs, `Compare ${from} with`);
+    if (!to) {
+        return;
+    }
+
+    const range = await vscode.window.showQuickPick(
+        [
+            { label: `${from}...${to}`, description: `Changes on ${to} since it diverged from ${from}`, notation: '...' as RangeNotation },
+            { label: `${from}..${to}`, description: 'Every difference between the two trees', notation: '..' as RangeNotation }
+        ],
+        { placeHolder: 'Select the comparison' }
+    );
+    if (!range) {
+        return;
+    }
+
+    try {
+        const comparison = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: `Git Stats: Comparing ${range.label}`,
+                cancellable: true
+            },
+            (progress, token) => pipeline.compareRefs(from, to, range.notation, token)
+        );
+        DashboardPanel.showComparison(extensionUri, getDashboardSource(), pipeline.folder, comparison);
+    } catch (error) {
+        if (!(error instanceof GitCancelledError)) {
+            vscode.window.showErrorMessage(`Git Stats: Could not compare ${range.label}: ${error instanceof Error ? error.message : error}`);
+        }
     }
-    
-    outputChannel.appendLine('\n══════════════════════════════════════════════════════════════════════════════');
 }
 
-function getTimeAgo(date: Date): string {
-    const seconds = Math.floor((Date.now() - date.getTime()) / 1000);
-    
-    if (seconds < 60) return `${seconds} seconds ago`;
-    const minutes = Math.floor(seconds / 60);
-    if (minutes < 60) return `${minutes} minute${minutes > 1 ? 's' : ''} ago`;
-    const hours = Math.floor(minutes / 60);
-    if (hours < 24) return `${hours} hour${hours > 1 ? 's' : ''} ago`;
-    const days = Math.floor(hours / 24);
-    if (days < 30) return `${days} day${days > 1 ? 's' : ''} ago`;
-    const months = Math.floor(days / 30);
-    if (months < 12) return `${months} month${months > 1 ? 's' : ''} ago`;
-    const years = Math.floor(months / 12);
-    return `${years} year${years > 1 ? 's' : ''} ago`;
+/** Resolves with the chosen ref, or with what was typed when it matches no item */
+function pickRef(refs: RefList, placeHolder: string): Promise<string | undefined> {
+    const items: Array<vscode.QuickPickItem & { ref?: string }> = [
+        ...refs.local.map(ref => ({ label: ref, description: 'Local branch', ref })),
+        ...refs.remote.map(ref => ({ label: ref, description: 'Remote branch', ref })),
+        ...refs.tags.map(ref => ({ label: ref, description: 'Tag', ref })),
+        ...refs.commits.map(commit => ({
+            label: commit.shortHash,
+            description: commit.subject,
+            detail: new Date(commit.timestamp).toLocaleString(),
+            ref: commit.hash
+        }))
+    ];
+
+    return new Promise(resolve => {
+        const quickPick = vscode.window.createQuickPick<vscode.QuickPickItem & { ref?: string }>();
+        quickPick.placeholder = placeHolder;
+        quickPick.matchOnDescription = true;
+        quickPick.items = items;
+        let result: string | undefined;
+
+        // Any other ref can be typed, like `HEAD~3` or a full hash
+        quickPick.onDidChangeValue(value => {
+            const typed = value.trim();
+            const matches = typed && items.some(item => item.ref === typed || item.label === typed);
+            quickPick.items = typed && !matches
+                ? [{ label: typed, description: 'Use this ref', alwaysShow: true, ref: typed }, ...items]
+                : items;
+        });
+        quickPick.onDidAccept(() => {
+            result = quickPick.selectedItems[0]?.ref;
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+            quickPick.dispose();
+            resolve(result);
+        });
+        quickPick.show();
+    });
+}
+
+async function selectChangedFile() {
+    if (pipelines.size === 0) {
+        vscode.window.showWarningMessage('No workspace folder open');
+        return;
+    }
+
+    const pipeline = await pickPipeline('Select the workspace folder');
+    if (!pipeline) {
+        return;
+    }
+
+    const gitStats = await pipeline.gitManager.getGitStats();
+    if (!gitStats) {
+        vscode.window.showWarningMessage(`Git Stats: ${pipeline.folder.name} is not a git repository`);
+        return;
+    }
+
+    await showChangedFiles(pipeline.rootPath, pipeline.gitManager, gitStats);
 }
 
 export function deactivate() {
     stopMonitoring();
+    runningCollections.forEach(cancellation => cancellation.cancel());
+    pipelines.forEach(pipeline => pipeline.dispose());
     statusBarManager?.dispose();
 }
\ No newline at end of file
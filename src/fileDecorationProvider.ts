@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import { FolderStats } from './folderPipeline';
+import { FileChange } from './gitManager';
+import { FileInfo, LineCountResult } from './lineCounter';
+
+interface FolderDecorations {
+    files: Map<string, FileInfo>;
+    changes: Map<string, FileChange>;
+}
+
+/**
+ * Decorates Explorer entries with their line count and a marker for files
+ * with working or branch changes. Files above the configured line thresholds
+ * are coloured as warnings or errors.
+ */
+export class LineCountDecorationProvider implements vscode.FileDecorationProvider, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<undefined>();
+    public readonly onDidChangeFileDecorations = this.changeEmitter.event;
+
+    private folders: Map<string, FolderDecorations> = new Map();
+    private results: LineCountResult[] = [];
+    private changes = '';
+    private enabled: boolean = true;
+    private warningLines: number = 500;
+    private errorLines: number = 1000;
+
+    constructor() {
+        this.updateConfiguration();
+    }
+
+    public updateConfiguration(): void {
+        const config = vscode.workspace.getConfiguration('gitStats');
+        this.enabled = config.get<boolean>('showFileDecorations', true);
+        this.warningLines = config.get<number>('decorationWarningLines', 500);
+        this.errorLines = config.get<number>('decorationErrorLines', 1000);
+        this.changeEmitter.fire(undefined);
+    }
+
+    public update(folderStats: FolderStats[]): void {
+        // Skip the refresh when neither the counts nor the changed files moved;
+        // line count results are reused from the cache while nothing changed
+        const results = folderStats.map(stats => stats.lineCountResult);
+        const changes = JSON.stringify(folderStats.map(stats => stats.gitStats?.files ?? []));
+        if (changes === this.changes && results.length === this.results.length
+            && results.every((result, i) => result === this.results[i])) {
+            return;
+        }
+        this.results = results;
+        this.changes = changes;
+
+        this.folders = new Map(folderStats.map(stats => [
+            stats.folder.uri.toString(),
+            {
+                files: new Map(stats.lineCountResult.files.map(file => [normalizePath(file.path), file])),
+                changes: new Map((stats.gitStats?.files ?? []).map(change => [normalizePath(change.path), change]))
+            }
+        ]));
+        this.changeEmitter.fire(undefined);
+    }
+
+    public provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+        if (!this.enabled || uri.scheme !== 'file') {
+            return undefined;
+        }
+
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        const decorations = folder && this.folders.get(folder.uri.toString());
+        if (!folder || !decorations) {
+            return undefined;
+        }
+
+        const relativePath = normalizePath(vscode.workspace.asRelativePath(uri, false));
+        const file = decorations.files.get(relativePath);
+        const change = decorations.changes.get(relativePath);
+        if (!file && !change) {
+            return undefined;
+        }
+
+        const tooltip: string[] = [];
+        if (file) {
+            tooltip.push(`${file.lines.toLocaleString()} lines (${file.code.toLocaleString()} code)`);
+        }
+        const marker = change ? this.getChangeMarker(change, tooltip) : undefined;
+
+        // Changed files show the change marker, large files their size
+        const lines = file?.lines ?? 0;
+        const badge = marker ?? (lines >= this.warningLines ? formatBadge(lines) : undefined);
+        const decoration = new vscode.FileDecoration(badge, tooltip.join(', '), this.getColor(lines));
+        decoration.propagate = false;
+        return decoration;
+    }
+
+    public dispose(): void {
+        this.changeEmitter.dispose();
+    }
+
+    private getChangeMarker(change: FileChange, tooltip: string[]): string | undefined {
+        const workingAdditions = change.stagedAdditions + change.unstagedAdditions + change.untrackedLines;
+        const workingDeletions = change.stagedDeletions + change.unstagedDeletions;
+        const additions = workingAdditions + change.branchAdditions;
+        const deletions = workingDeletions + change.branchDeletions;
+
+        if (workingAdditions > 0 || workingDeletions > 0) {
+            tooltip.push(`local: +${workingAdditions}/-${workingDeletions}`);
+        }
+        if (change.branchAdditions > 0 || change.branchDeletions > 0) {
+            tooltip.push(`branch: +${change.branchAdditions}/-${change.branchDeletions}`);
+        }
+
+        if (additions > 0 && deletions > 0) {
+            return '±';
+        }
+        if (additions > 0) {
+            return '+';
+        }
+        return deletions > 0 ? '-' : undefined;
+    }
+
+    private getColor(lines: number): vscode.ThemeColor | undefined {
+        if (lines >= this.errorLines) {
+            return new vscode.ThemeColor('list.errorForeground');
+        }
+        if (lines >= this.warningLines) {
+            return new vscode.ThemeColor('list.warningForeground');
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Badges hold at most two characters: hundreds of lines are shown as `.5`
+ * (half a thousand), thousands as `3k`, and anything from ten thousand as `9+`.
+ */
+function formatBadge(lines: number): string {
+    if (lines < 100) {
+        return String(lines);
+    }
+    if (lines < 1000) {
+        return `.${Math.floor(lines / 100)}`;
+    }
+    if (lines < 10000) {
+        return `${Math.floor(lines / 1000)}k`;
+    }
+    return '9+';
+}
+
+function normalizePath(filePath: string): string {
+    return filePath.replace(/\\/g, '/');
+}
@@ -0,0 +1,153 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { LineBreakdown } from './lineClassifier';
+
+export interface FileCacheEntry extends LineBreakdown {
+    key: string;
+    binary: boolean;
+    /** Language the lines were classified with; empty when they were not counted */
+    language: string;
+    /** Shebang interpreter of extensionless files, so the first line is only read again once they change */
+    interpreter?: string | null;
+}
+
+interface PersistedFileCache {
+    version: number;
+    rootPath: string;
+    files: { [relativePath: string]: FileCacheEntry };
+}
+
+interface RootCache {
+    files: Map<string, FileCacheEntry>;
+    dirty: boolean;
+}
+
+/**
+ * Per-file line count cache that survives restarts.
+ *
+ * Entries are keyed by the git blob object id for files whose working copy
+ * matches the index, or by mtime + size for untracked and modified files, so a
+ * refresh only re-reads files whose content actually changed.
+ */
+export class FileLineCache {
+    private static readonly formatVersion = 3;
+    private storageDir: string;
+    private roots: Map<string, RootCache> = new Map();
+    private loading: Map<string, Promise<RootCache>> = new Map();
+
+    constructor(storageDir: string) {
+        this.storageDir = storageDir;
+    }
+
+    public static blobKey(objectId: string): string {
+        return `blob:${objectId}`;
+    }
+
+    public static statKey(stat: fs.Stats): string {
+        return `stat:${stat.mtimeMs}:${stat.size}`;
+    }
+
+    public async load(rootPath: string): Promise<void> {
+        await this.getRoot(rootPath);
+    }
+
+    public get(rootPath: string, relativePath: string, key: string): FileCacheEntry | undefined {
+        const entry = this.roots.get(rootPath)?.files.get(relativePath);
+        return entry && entry.key === key ? entry : undefined;
+    }
+
+    public set(rootPath: string, relativePath: string, entry: FileCacheEntry): void {
+        const root = this.roots.get(rootPath);
+        if (!root) {
+            return;
+        }
+        root.files.set(relativePath, entry);
+        root.dirty = true;
+    }
+
+    /**
+     * Drops entries for files that were not seen during the last count and
+     * writes the cache to disk if anything changed.
+     */
+    public async save(rootPath: string, seenFiles: Set<string>): Promise<void> {
+        const root = this.roots.get(rootPath);
+        if (!root) {
+            return;
+        }
+
+        for (const relativePath of Array.from(root.files.keys())) {
+            if (!seenFiles.has(relativePath)) {
+                root.files.delete(relativePath);
+                root.dirty = true;
+            }
+        }
+
+        if (!root.dirty) {
+            return;
+        }
+
+        const persisted: PersistedFileCache = {
+            version: FileLineCache.formatVersion,
+            rootPath,
+            files: Object.fromEntries(root.files)
+        };
+
+        try {
+            const cacheFile = this.getCacheFile(rootPath);
+            const tempFile = `${cacheFile}.${process.pid}.tmp`;
+            await fs.promises.mkdir(this.storageDir, { recursive: true });
+            await fs.promises.writeFile(tempFile, JSON.stringify(persisted), 'utf-8');
+            await fs.promises.rename(tempFile, cacheFile);
+            root.dirty = false;
+        } catch (error) {
+            console.error('Git Stats: Could not write line count cache:', error);
+        }
+    }
+
+    public async clear(): Promise<void> {
+        this.roots.clear();
+        this.loading.clear();
+        try {
+            await fs.promises.rm(this.storageDir, { recursive: true, force: true });
+        } catch (error) {
+            console.error('Git Stats: Could not delete line count cache:', error);
+        }
+    }
+
+    private getRoot(rootPath: string): Promise<RootCache> {
+        const root = this.roots.get(rootPath);
+        if (root) {
+            return Promise.resolve(root);
+        }
+
+        let pending = this.loading.get(rootPath);
+        if (!pending) {
+            pending = this.readRoot(rootPath).then(loaded => {
+                this.roots.set(rootPath, loaded);
+                this.loading.delete(rootPath);
+                return loaded;
+            });
+            this.loading.set(rootPath, pending);
+        }
+        return pending;
+    }
+
+    private async readRoot(rootPath: string): Promise<RootCache> {
+        try {
+            const content = await fs.promises.readFile(this.getCacheFile(rootPath), 'utf-8');
+            const persisted = JSON.parse(content) as PersistedFileCache;
+            if (persisted.version === FileLineCache.formatVersion && persisted.rootPath === rootPath) {
+                return { files: new Map(Object.entries(persisted.files)), dirty: false };
+            }
+        } catch {
+            // No cache yet or unreadable cache, start empty
+        }
+        return { files: new Map(), dirty: false };
+    }
+
+    private getCacheFile(rootPath: string): string {
+        const hash = crypto.createHash('sha1').update(rootPath).digest('hex');
+        return path.join(this.storageDir, `${hash}.json`);
+    }
+}
@@ -0,0 +1,373 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { AuthoredCommit, BlameAuthor, CommitNumstat, GitManager, GitStats, RangeNotation, RecentFile, RepositoryAge } from './gitManager';
+import { LineCounter, LineCountResult } from './lineCounter';
+import { FileLineCache } from './fileLineCache';
+import { LineCountTrend, TrendGranularity, buildLineCountTrend } from './lineHistory';
+import { OwnershipReport, buildOwnershipReport } from './ownership';
+import { HotspotReport, buildHotspotReport } from './hotspots';
+import { ActivityFilter, ActivityReport, buildActivityReport } from './activity';
+import { RefComparison, buildRefComparison } from './refComparison';
+import { rollUpGitStats, rollUpLineCounts } from './statsAggregator';
+import { throwIfCancelled } from './gitRunner';
+
+export type SubmoduleMode = 'ignore' | 'separate' | 'includeInTotals';
+
+export interface FolderStats {
+    folder: vscode.WorkspaceFolder;
+    gitStats: GitStats | null;
+    lineCountResult: LineCountResult;
+    /** Initialized submodules; already part of the totals above with `includeInTotals` */
+    submodules: SubmoduleStats[];
+    submodulesInTotals: boolean;
+}
+
+export interface SubmoduleStats {
+    /** Path relative to the parent folder, with forward slashes */
+    path: string;
+    gitStats: GitStats | null;
+    lineCountResult: LineCountResult;
+}
+
+export interface FolderReport extends FolderStats {
+    repoAge: RepositoryAge;
+    recentFiles: RecentFile[];
+    hotspots: HotspotReport;
+}
+
+/** Number of `git blame` processes run in parallel by the ownership analysis */
+const blameConcurrency = 4;
+
+/** Files and directories listed by the hotspot analysis */
+const hotspotLimit = 50;
+
+/**
+ * Owns the git and line counting components for a single workspace folder.
+ * One pipeline exists per root of a (multi-root) workspace.
+ */
+export class FolderPipeline implements vscode.Disposable {
+    public readonly folder: vscode.WorkspaceFolder;
+    public readonly gitManager: GitManager;
+    public readonly lineCounter: LineCounter;
+    private history: { head: string; commits: CommitNumstat[] } | null = null;
+    private blames: { head: string; files: Map<string, BlameAuthor[]> } | null = null;
+    private authoredCommits: { head: string; commits: AuthoredCommit[] } | null = null;
+    private repositoryInfo: {
+        head: string | null;
+        windowDays: number;
+        repoAge: RepositoryAge;
+        recentFiles: RecentFile[];
+        changeFrequency: Map<string, number>;
+    } | null = null;
+    private watchers: vscode.Disposable[] = [];
+    private readonly fileCache: FileLineCache | undefined;
+    private readonly state: vscode.Memento | undefined;
+    private readonly isSubmodule: boolean;
+    private submodules: Map<string, FolderPipeline> = new Map();
+    private onDidChange: (() => void) | undefined;
+    private rolledUp: { parts: LineCountResult[]; result: LineCountResult } | null = null;
+
+    constructor(folder: vscode.WorkspaceFolder, fileCache?: FileLineCache, state?: vscode.Memento, isSubmodule: boolean = false) {
+        this.folder = folder;
+        this.fileCache = fileCache;
+        this.state = state;
+        this.isSubmodule = isSubmodule;
+        const settings = this.getSettings();
+        this.lineCounter = new LineCounter(settings, fileCache);
+        // Diff statistics honour the same filters as the line count
+        this.gitManager = new GitManager(this.rootPath, settings, state, relativePath => this.lineCounter.matchesFilters(relativePath));
+    }
+
+    public get rootPath(): string {
+        return this.folder.uri.fsPath;
+    }
+
+    public updateConfiguration(): void {
+        const settings = this.getSettings();
+        this.gitManager.updateConfiguration(settings);
+        this.lineCounter.updateConfiguration(settings);
+        this.submodules.forEach(submodule => submodule.updateConfiguration());
+    }
+
+    /**
+     * Watches HEAD, the index, the refs and FETCH_HEAD of the folder's
+     * repository, the git state the statistics depend on, and reports every change.
+     */
+    public async watchRepository(onDidChange: () => void): Promise<void> {
+        this.onDidChange = onDidChange;
+        this.disposeWatchers();
+        const directories = await this.gitManager.getGitDirectories();
+        if (!directories) {
+            return;
+        }
+
+        const patterns = [
+            new vscode.RelativePattern(vscode.Uri.file(directories.gitDir), '{HEAD,index,FETCH_HEAD}'),
+            new vscode.RelativePattern(vscode.Uri.file(directories.commonDir), '{packed-refs,refs/**,FETCH_HEAD}')
+        ];
+        for (const pattern of patterns) {
+            const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+            watcher.onDidCreate(onDidChange);
+            watcher.onDidChange(onDidChange);
+            watcher.onDidDelete(onDidChange);
+            this.watchers.push(watcher);
+        }
+    }
+
+    public dispose(): void {
+        this.disposeWatchers();
+        this.submodules.forEach(submodule => submodule.dispose());
+        this.submodules.clear();
+    }
+
+    /**
+     * Collects the line count and git statistics of the folder. Cancelling
+     * the token kills the running git processes and rejects with a
+     * GitCancelledError, so no partial statistics are cached or returned.
+     */
+    public async collect(token?: vscode.CancellationToken): Promise<FolderStats> {
+        // Unchanged files are served from the file line cache
+        const lineCountResult = await this.lineCounter.countLines(this.rootPath, token);
+
+        // Get git stats
+        const gitStats = await this.gitManager.getGitStats(token);
+
+        // Submodules have their own repository and statistics
+        const mode = vscode.workspace.getConfiguration('gitStats', this.folder.uri).get<SubmoduleMode>('submodules', 'separate');
+        const submodules = await this.collectSubmodules(gitStats !== null && mode !== 'ignore', token);
+        throwIfCancelled(token);
+        if (mode !== 'includeInTotals' || submodules.length === 0 || !gitStats) {
+            return { folder: this.folder, gitStats, lineCountResult, submodules, submodulesInTotals: false };
+        }
+
+        return {
+            folder: this.folder,
+            gitStats: rollUpGitStats(gitStats, submodules),
+            lineCountResult: this.rollUpLineCounts(lineCountResult, submodules),
+            submodules,
+            submodulesInTotals: true
+        };
+    }
+
+    /**
+     * Adds the repository age, recent files and hotspots to statistics
+     * already collected. The history they come from is read again only once
+     * HEAD moves, so refreshing the dashboard does not walk it on every save.
+     */
+    public async collectReport(stats: FolderStats, token?: vscode.CancellationToken): Promise<FolderReport> {
+        const windowDays = vscode.workspace.getConfiguration('gitStats', this.folder.uri).get<number>('hotspotWindowDays', 180);
+        const head = await this.gitManager.getCurrentHead(token);
+
+        if (!this.repositoryInfo || this.repositoryInfo.head !== head || this.repositoryInfo.windowDays !== windowDays) {
+            const repoAge = await this.gitManager.getRepositoryAge(token);
+            const recentFiles = await this.gitManager.getRecentlyModifiedFiles(10, token);
+            // Rank files changing often relative to their size
+            const changeFrequency = await this.gitManager.getChangeFrequency(windowDays, token);
+            // Cancelled reads come back empty and must not be reused
+            throwIfCancelled(token);
+            this.repositoryInfo = { head, windowDays, repoAge, recentFiles, changeFrequency };
+        }
+
+        const { repoAge, recentFiles, changeFrequency } = this.repositoryInfo;
+        const hotspots = buildHotspotReport(changeFrequency, stats.lineCountResult, windowDays, hotspotLimit);
+        return { ...stats, repoAge, recentFiles, hotspots };
+    }
+
+    public async collectTrend(granularity: TrendGranularity, token?: vscode.CancellationToken): Promise<LineCountTrend> {
+        // Walking the history is expensive, reuse it until HEAD moves
+        const head = await this.gitManager.getCurrentHead(token);
+        throwIfCancelled(token);
+        if (!head) {
+            return buildLineCountTrend([], () => false, () => '', granularity);
+        }
+
+        if (!this.history || this.history.head !== head) {
+            const commits = await this.gitManager.getNumstatHistory(token);
+            // A cancelled walk comes back empty and must not be reused
+            throwIfCancelled(token);
+            this.history = { head, commits };
+        }
+
+        return buildLineCountTrend(
+            this.history.commits,
+            relativePath => this.lineCounter.matchesFilters(relativePath),
+            relativePath => this.lineCounter.getLanguage(relativePath).name,
+            granularity
+        );
+    }
+
+    public async collectActivity(filter: ActivityFilter, token?: vscode.CancellationToken): Promise<ActivityReport> {
+        let email: string | null = null;
+        if (filter.type === 'me') {
+            email = await this.gitManager.getUserEmail(token);
+            throwIfCancelled(token);
+            if (!email) {
+                throw new Error('user.email is not configured');
+            }
+        } else if (filter.type === 'author') {
+            email = filter.email;
+        }
+
+        const head = await this.gitManager.getCurrentHead(token);
+        throwIfCancelled(token);
+        if (!head) {
+            return buildActivityReport([], email);
+        }
+
+        // Reuse the log until HEAD moves
+        if (!this.authoredCommits || this.authoredCommits.head !== head) {
+            const commits = await this.gitManager.getAuthoredCommits(token);
+            throwIfCancelled(token);
+            this.authoredCommits = { head, commits };
+        }
+
+        return buildActivityReport(this.authoredCommits.commits, email);
+    }
+
+    /**
+     * Blames every file selected by the line counter at HEAD. Results are
+     * reused until HEAD moves; untracked files have no blame and are skipped.
+     */
+    public async collectOwnership(
+        onProgress?: (done: number, total: number) => void,
+        token?: vscode.CancellationToken
+    ): Promise<OwnershipReport> {
+        const config = vscode.workspace.getConfiguration('gitStats', this.folder.uri);
+        const threshold = config.get<number>('ownershipConcentrationThreshold', 75);
+
+        const head = await this.gitManager.getCurrentHead(token);
+        throwIfCancelled(token);
+        if (!head) {
+            return buildOwnershipReport(new Map(), threshold);
+        }
+
+        if (!this.blames || this.blames.head !== head) {
+            this.blames = { head, files: new Map() };
+        }
+        const blamed = this.blames.files;
+
+        const { lineCountResult } = await this.collect(token);
+        const pending = lineCountResult.files.map(file => file.path).filter(file => !blamed.has(file));
+        const total = pending.length;
+        let done = 0;
+
+        const worker = async () => {
+            while (pending.length > 0 && !token?.isCancellationRequested) {
+                const file = pending.shift() as string;
+                let authors: BlameAuthor[] = [];
+                try {
+                    authors = await this.gitManager.getBlameAuthors(file, token);
+                } catch {
+                    // Untracked or unreadable at HEAD
+                }
+                // A cancelled blame is incomplete, the file is blamed again next time
+                if (token?.isCancellationRequested) {
+                    return;
+                }
+                blamed.set(file, authors);
+                onProgress?.(++done, total);
+            }
+        };
+        await Promise.all(Array.from({ length: blameConcurrency }, worker));
+
+        const counted = new Set(lineCountResult.files.map(file => file.path));
+        const selected = new Map(Array.from(blamed.entries()).filter(([file, authors]) => counted.has(file) && authors.length > 0));
+        return buildOwnershipReport(selected, threshold);
+    }
+
+    /**
+     * Compares two refs of the folder's repository: the diff with `..` or
+     * `...` semantics, the commits on either side and the line counts at both.
+     */
+    public async compareRefs(
+        from: string,
+        to: string,
+        notation: RangeNotation,
+        token?: vscode.CancellationToken
+    ): Promise<RefComparison> {
+        const fromCommit = await this.gitManager.resolveCommit(from, token);
+        const toCommit = await this.gitManager.resolveCommit(to, token);
+        throwIfCancelled(token);
+        if (!fromCommit || !toCommit) {
+            throw new Error(`${fromCommit ? to : from} is not a commit`);
+        }
+
+        const mergeBase = await this.gitManager.getMergeBase(fromCommit, toCommit, token);
+        if (notation === '...' && !mergeBase) {
+            throw new Error(`${from} and ${to} have no common history`);
+        }
+
+        const diff = await this.gitManager.getRefDiff(fromCommit, toCommit, notation, token);
+        const divergence = await this.gitManager.getAheadBehind(fromCommit, toCommit, token);
+        const fromLineCount = await this.lineCounter.countLinesAtRef(this.rootPath, fromCommit, token);
+        const toLineCount = await this.lineCounter.countLinesAtRef(this.rootPath, toCommit, token);
+
+        return buildRefComparison({
+            from: { ref: from, commit: fromCommit, lineCount: fromLineCount },
+            to: { ref: to, commit: toCommit, lineCount: toLineCount },
+            notation,
+            mergeBase,
+            divergence,
+            diff,
+            languageOf: relativePath => this.lineCounter.getLanguage(relativePath).name
+        });
+    }
+
+    /**
+     * Collects every initialized submodule, nested ones included, through a
+     * pipeline of its own. Only the top-level folder discovers submodules.
+     */
+    private async collectSubmodules(
+        enabled: boolean,
+        token?: vscode.CancellationToken
+    ): Promise<SubmoduleStats[]> {
+        const paths = enabled && !this.isSubmodule ? await this.gitManager.getSubmodules(token) : [];
+        throwIfCancelled(token);
+
+        // Drop pipelines of removed or deinitialized submodules
+        for (const [submodulePath, pipeline] of Array.from(this.submodules.entries())) {
+            if (!paths.includes(submodulePath)) {
+                pipeline.dispose();
+                this.submodules.delete(submodulePath);
+            }
+        }
+
+        return Promise.all(paths.map(async submodulePath => {
+            let pipeline = this.submodules.get(submodulePath);
+            if (!pipeline) {
+                const folder: vscode.WorkspaceFolder = {
+                    uri: vscode.Uri.file(path.join(this.rootPath, submodulePath)),
+                    name: `${this.folder.name}/${submodulePath}`,
+                    index: this.folder.index
+                };
+                pipeline = new FolderPipeline(folder, this.fileCache, this.state, true);
+                this.submodules.set(submodulePath, pipeline);
+                if (this.onDidChange) {
+                    pipeline.watchRepository(this.onDidChange);
+                }
+            }
+
+            const { gitStats, lineCountResult } = await pipeline.collect(token);
+            return { path: submodulePath, gitStats, lineCountResult };
+        }));
+    }
+
+    /** Reuses the rolled up line count while no part changed, so views can skip refreshing */
+    private rollUpLineCounts(lineCountResult: LineCountResult, submodules: SubmoduleStats[]): LineCountResult {
+        const parts = [lineCountResult, ...submodules.map(submodule => submodule.lineCountResult)];
+        if (!this.rolledUp || this.rolledUp.parts.length !== parts.length
+            || parts.some((part, i) => part !== this.rolledUp?.parts[i])) {
+            this.rolledUp = { parts, result: rollUpLineCounts(lineCountResult, submodules) };
+        }
+        return this.rolledUp.result;
+    }
+
+    private getSettings(): vscode.WorkspaceConfiguration {
+        return vscode.workspace.getConfiguration('gitStats', this.folder.uri);
+    }
+
+    private disposeWatchers(): void {
+        this.watchers.forEach(watcher => watcher.dispose());
+        this.watchers = [];
+    }
+}
@@ -1,90 +1,372 @@
-import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import { promisify } from 'util';
-import { exec } from 'child_process';
+import { isBinaryFile } from './lineCounter';
+import { classifyLines } from './lineClassifier';
+import { CancellationToken, GitRunOptions, GitRunner, sharedGitRunner } from './gitRunner';
+import { Settings, StateStore } from './settings';
 
 const readFile = promisify(fs.readFile);
-const execAsync = promisify(exec);
 
 export interface GitStats {
     branch: string;
+    /**
+     * Changes against the comparison base, 0 on a base branch. Rolled up
+     * submodules add theirs whatever branch the parent is on.
+     */
     branchAdditions: number;
     branchDeletions: number;
     workingAdditions: number;
     workingDeletions: number;
     untrackedLines: number;
     isMainBranch: boolean;
+    comparisonBase: string | null;
+    /** Commits on HEAD missing from the comparison base, and the reverse */
+    commitsAhead: number;
+    commitsBehind: number;
+    /** Upstream tracking branch of the current branch, with its divergence */
+    upstream: string | null;
+    upstreamAhead: number;
+    upstreamBehind: number;
+    /** When the remote-tracking refs were last fetched, in ms since the epoch */
+    lastFetchTime: number | null;
+    /** Top level of the working tree; differs from the folder when a subdirectory is opened */
+    repositoryRoot: string;
+    /** Main working tree when the folder is a linked worktree, otherwise null */
+    mainWorktree: string | null;
+    /**
+     * Added plus deleted lines of files left out by the line count filters,
+     * against the comparison base and in the index and working tree
+     */
+    excludedBranchChurn: number;
+    excludedWorkingChurn: number;
+    /** Every file passing the line count filters with working or branch changes */
+    files: FileChange[];
+    /** Staged, unstaged and branch changes of the files left out by the filters; untracked ones are not read */
+    excludedFiles: FileChange[];
+}
+
+export interface FileChange {
+    /** Path relative to the workspace folder; the new path for renames */
+    path: string;
+    stagedAdditions: number;
+    stagedDeletions: number;
+    unstagedAdditions: number;
+    unstagedDeletions: number;
+    untrackedLines: number;
+    branchAdditions: number;
+    branchDeletions: number;
+}
+
+export interface NumstatEntry {
+    path: string;
+    additions: number;
+    deletions: number;
+}
+
+export interface GitDirectories {
+    gitDir: string;
+    commonDir: string;
+    topLevel: string;
+}
+
+export interface NumstatTotals {
+    additions: number;
+    deletions: number;
+    files: NumstatEntry[];
+    /** Added plus deleted lines of the files rejected by the path filter */
+    excludedChurn: number;
+    excludedFiles: NumstatEntry[];
+}
+
+/** Decides whether a repository-relative path counts towards the statistics */
+export type PathFilter = (relativePath: string) => boolean;
+
+export interface AheadBehind {
+    ahead: number;
+    behind: number;
+}
+
+export type ComparisonStrategy = 'candidates' | 'upstream' | 'closestAncestor';
+
+export interface BranchList {
+    local: string[];
+    remote: string[];
+}
+
+/** `A..B` diffs the two trees, `A...B` diffs B against its merge base with A */
+export type RangeNotation = '..' | '...';
+
+export interface RefList {
+    local: string[];
+    /** Branches of every remote, prefixed with the remote name */
+    remote: string[];
+    tags: string[];
+    commits: RecentCommit[];
+}
+
+export interface RecentCommit {
+    hash: string;
+    shortHash: string;
+    subject: string;
+    /** Committer date in ms since the epoch */
+    timestamp: number;
+}
+
+export interface RepositoryAge {
+    firstCommitDate: Date | null;
+    totalCommits: number;
+    contributors: number;
+}
+
+export interface RecentFile {
+    path: string;
+    date: Date;
+}
+
+export interface BlameAuthor {
+    author: string;
+    email: string;
+    lines: number;
+}
+
+export interface AuthoredCommit {
+    /** Author date in ms since the epoch */
+    timestamp: number;
+    /** Offset of the author's time zone from UTC, in minutes */
+    utcOffset: number;
+    author: string;
+    email: string;
+}
+
+export interface CommitNumstat {
+    commit: string;
+    timestamp: number;
+    files: Array<{ path: string; additions: number; deletions: number }>;
+}
+
+/**
+ * Restricts diffs to the workspace folder with paths relative to it, and
+ * leaves submodules to their own statistics
+ */
+const diffScope = ['--relative', '--ignore-submodules'];
+
+/** Fetches taking longer than this are abandoned */
+const fetchTimeout = 60 * 1000;
+
+/** Upper bound of branches inspected when looking for the closest ancestor */
+const maxAncestorCandidates = 50;
+
+interface WorkingChanges {
+    additions: number;
+    deletions: number;
+    untrackedLines: number;
+    excludedChurn: number;
+    stagedFiles: NumstatEntry[];
+    unstagedFiles: NumstatEntry[];
+    untrackedFiles: NumstatEntry[];
+    excludedStagedFiles: NumstatEntry[];
+    excludedUnstagedFiles: NumstatEntry[];
+}
+
+/**
+ * Resolves the destination of a renamed path in `--numstat` output, written
+ * either as `old => new` or `dir/{old => new}/file`.
+ */
+function parseNumstatPath(numstatPath: string): string {
+    const braced = numstatPath.match(/^(.*)\{(.*) => (.*)\}(.*)$/);
+    if (braced) {
+        return (braced[1] + braced[3] + braced[4]).replace(/\/\//g, '/');
+    }
+    const arrow = numstatPath.indexOf(' => ');
+    return arrow >= 0 ? numstatPath.slice(arrow + 4) : numstatPath;
+}
+
+/**
+ * Linked worktrees have their own git directory below the common one; the
+ * main worktree is the parent of the common `.git` directory.
+ */
+function getMainWorktree(directories: GitDirectories): string | null {
+    if (path.resolve(directories.gitDir) === path.resolve(directories.commonDir)) {
+        return null;
+    }
+    return path.basename(directories.commonDir) === '.git'
+        ? path.dirname(directories.commonDir)
+        : directories.commonDir;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
 export class GitManager {
     private workspaceRoot: string;
+    private state: StateStore | undefined;
     private mainBranch: string | null = null;
     private upstreamBranch: string | null = null;
+    private localMainExists: boolean = false;
+    private baseBranches: string[] = ['main', 'master'];
+    private pathFilter: PathFilter;
+    private baseRemote: string = 'origin';
+    private comparisonStrategy: ComparisonStrategy = 'candidates';
+    private runner: GitRunner;
+    /** Closest ancestors by candidate refs and their commits, for the commit in `ancestorCacheHead` */
+    private ancestorCache: Map<string, string | null> = new Map();
+    private ancestorCacheHead: string | null = null;
 
-    constructor(workspaceFolder: vscode.WorkspaceFolder) {
-        this.workspaceRoot = workspaceFolder.uri.fsPath;
+    constructor(
+        workspaceRoot: string,
+        settings: Settings,
+        state?: StateStore,
+        pathFilter?: PathFilter,
+        runner: GitRunner = sharedGitRunner
+    ) {
+        this.workspaceRoot = workspaceRoot;
+        this.state = state;
+        this.pathFilter = pathFilter || (() => true);
+        this.runner = runner;
+        this.updateConfiguration(settings);
     }
 
-    private async execGit(command: string): Promise<string> {
-        try {
-            const { stdout } = await execAsync(`git ${command}`, {
-                cwd: this.workspaceRoot,
-                maxBuffer: 1024 * 1024 * 10 // 10MB buffer
-            });
-            return stdout.trim();
-        } catch (error: any) {
-            throw new Error(`Git command failed: ${error.message}`);
-        }
+    public updateConfiguration(settings: Settings): void {
+        this.baseBranches = settings.get<string[]>('baseBranches', ['main', 'master']);
+        this.baseRemote = settings.get<string>('baseRemote', 'origin');
+        this.comparisonStrategy = settings.get<ComparisonStrategy>('comparisonStrategy', 'candidates');
     }
 
-    public async isGitRepository(): Promise<boolean> {
+    private execGit(args: string[], options?: GitRunOptions): Promise<string> {
+        return this.runner.run(this.workspaceRoot, args, options);
+    }
+
+    /** Runs git for listings that can grow with the size of the repository or its history */
+    private streamGit(args: string[], onLine: (line: string) => void, options?: GitRunOptions): Promise<void> {
+        return this.runner.stream(this.workspaceRoot, args, onLine, options);
+    }
+
+    public async isGitRepository(token?: CancellationToken): Promise<boolean> {
         try {
-            await this.execGit('rev-parse --git-dir');
+            await this.execGit(['rev-parse', '--git-dir'], { token });
             return true;
         } catch {
             return false;
         }
     }
 
-    public async getGitStats(): Promise<GitStats | null> {
+    /**
+     * The repository's git directory and, for linked worktrees, the common
+     * directory holding refs and packed-refs, plus the top level of the working
+     * tree, which is above the workspace folder when a subdirectory is opened.
+     * Null outside a repository.
+     */
+    public async getGitDirectories(token?: CancellationToken): Promise<GitDirectories | null> {
+        try {
+            const [gitDir, commonDir, topLevel] = (
+                await this.execGit(['rev-parse', '--absolute-git-dir', '--git-common-dir', '--show-toplevel'], { token })
+            ).split('\n');
+            return {
+                gitDir,
+                commonDir: path.resolve(this.workspaceRoot, commonDir || gitDir),
+                topLevel: topLevel ? path.resolve(topLevel) : this.workspaceRoot
+            };
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Initialized submodules below the workspace folder, nested ones
+     * included, relative to the folder and with forward slashes.
+     */
+    public async getSubmodules(token?: CancellationToken): Promise<string[]> {
+        try {
+            const status = await this.execGit(['submodule', 'status', '--recursive'], { token });
+            const submodules: string[] = [];
+            for (const line of status.split('\n')) {
+                // ` <sha> <path> (<describe>)`; uninitialized submodules start with `-`
+                const match = line.match(/^\s*[+U]?[0-9a-f]{7,} (.+?)(?: \(.*\))?$/);
+                if (match && !match[1].startsWith('../')) {
+                    submodules.push(match[1]);
+                }
+            }
+            return submodules;
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * Updates the remote-tracking refs of the comparison remote. Throws when
+     * the remote is unreachable or asks for credentials.
+     */
+    public async fetch(): Promise<void> {
+        await this.execGit(['fetch', this.baseRemote, '--prune'], { timeout: fetchTimeout });
+    }
+
+    /**
+     * Time of the last fetch, read from the modification time of FETCH_HEAD.
+     * Null when the repository was never fetched.
+     */
+    private async getLastFetchTime(directories: GitDirectories): Promise<number | null> {
+        for (const dir of [directories.gitDir, directories.commonDir]) {
+            try {
+                const stats = await fs.promises.stat(path.join(dir, 'FETCH_HEAD'));
+                return stats.mtimeMs;
+            } catch {
+                // Not fetched from this directory
+            }
+        }
+        return null;
+    }
+
+    public async getGitStats(token?: CancellationToken): Promise<GitStats | null> {
         try {
-            if (!await this.isGitRepository()) {
+            // Resolved once per refresh; null outside a repository
+            const directories = await this.getGitDirectories(token);
+            if (!directories) {
                 return null;
             }
 
             // Get current branch
-            const branch = await this.getCurrentBranch();
+            const branch = await this.getCurrentBranch(token);
+            const upstream = await this.getUpstreamBranch(token);
 
-            // Find main branch
-            await this.findMainBranch();
-            
-            const isMainBranch = branch === this.mainBranch;
+            // Find the base to compare against
+            const { comparisonBranch, isMainBranch } = await this.resolveComparisonBase(branch, upstream, token);
 
-            // Get branch statistics (commits since branching from main/master or upstream)
+            // Get branch statistics (commits since branching from the comparison base)
             let branchAdditions = 0;
             let branchDeletions = 0;
+            let branchFiles: NumstatEntry[] = [];
+            let excludedBranchFiles: NumstatEntry[] = [];
+            let excludedBranchChurn = 0;
             
-            if (this.mainBranch && !isMainBranch) {
+            if (comparisonBranch && !isMainBranch) {
                 try {
-                    // Get the best comparison branch (local or upstream, whichever is later)
-                    const comparisonBranch = await this.getComparisonBranch();
-                    
-                    if (comparisonBranch) {
-                        const diffStat = await this.execGit(`diff ${comparisonBranch}...HEAD --numstat`);
-                        const stats = this.parseNumstat(diffStat);
-                        branchAdditions = stats.additions;
-                        branchDeletions = stats.deletions;
-                        console.log(`Git Stats: Comparing against ${comparisonBranch} for branch statistics`);
-                    }
+                    const diffStat = await this.execGit(['diff', `${comparisonBranch}...HEAD`, '--numstat', ...diffScope], { token });
+                    const stats = this.parseNumstat(diffStat);
+                    branchAdditions = stats.additions;
+                    branchDeletions = stats.deletions;
+                    branchFiles = stats.files;
+                    excludedBranchChurn = stats.excludedChurn;
+                    excludedBranchFiles = stats.excludedFiles;
+                    console.log(`Git Stats: Comparing against ${comparisonBranch} for branch statistics`);
                 } catch (error) {
                     // Branch comparison failed, ignore
                     console.log('Git Stats: Could not compute branch statistics:', error);
                 }
             }
 
+            // Commits ahead of and behind the comparison base and the upstream
+            const baseDivergence = comparisonBranch && !isMainBranch
+                ? await this.getAheadBehind(comparisonBranch, 'HEAD', token)
+                : { ahead: 0, behind: 0 };
+            const upstreamDivergence = upstream
+                ? await this.getAheadBehind(upstream, 'HEAD', token)
+                : { ahead: 0, behind: 0 };
+
             // Get working directory changes
-            const workingStats = await this.getWorkingChanges();
+            const workingStats = await this.getWorkingChanges(token);
+            const lastFetchTime = await this.getLastFetchTime(directories);
 
             return {
                 branch,
@@ -93,7 +375,20 @@ export class GitManager {
                 workingAdditions: workingStats.additions,
                 workingDeletions: workingStats.deletions,
                 untrackedLines: workingStats.untrackedLines,
-                isMainBranch
+                isMainBranch,
+                comparisonBase: isMainBranch ? null : comparisonBranch,
+                commitsAhead: baseDivergence.ahead,
+                commitsBehind: baseDivergence.behind,
+                upstream,
+                upstreamAhead: upstreamDivergence.ahead,
+                upstreamBehind: upstreamDivergence.behind,
+                lastFetchTime,
+                repositoryRoot: directories.topLevel,
+                mainWorktree: getMainWorktree(directories),
+                excludedBranchChurn,
+                excludedWorkingChurn: workingStats.excludedChurn,
+                files: this.mergeFileChanges(workingStats.stagedFiles, workingStats.unstagedFiles, workingStats.untrackedFiles, branchFiles),
+                excludedFiles: this.mergeFileChanges(workingStats.excludedStagedFiles, workingStats.excludedUnstagedFiles, [], excludedBranchFiles)
             };
         } catch (error) {
             console.error('Error getting git stats:', error);
@@ -101,14 +396,14 @@ export class GitManager {
         }
     }
 
-    private async getCurrentBranch(): Promise<string> {
+    public async getCurrentBranch(token?: CancellationToken): Promise<string> {
         try {
-            const branch = await this.execGit('branch --show-current');
+            const branch = await this.execGit(['branch', '--show-current'], { token });
             return branch || 'HEAD';
         } catch {
             // Fallback for older git versions
             try {
-                const branch = await this.execGit('rev-parse --abbrev-ref HEAD');
+                const branch = await this.execGit(['rev-parse', '--abbrev-ref', 'HEAD'], { token });
                 return branch || 'HEAD';
             } catch {
                 return 'unknown';
@@ -116,29 +411,79 @@ export class GitManager {
         }
     }
 
-    private async findMainBranch(): Promise<void> {
-        try {
-            // Get all branches
-            const branches = await this.execGit('branch -a');
-            const branchList = branches.split('\n').map(b => b.trim());
-            
-            // Check for local 'main' first, then 'master'
-            if (branchList.some(b => b === 'main' || b === '* main')) {
-                this.mainBranch = 'main';
-            } else if (branchList.some(b => b === 'master' || b === '* master')) {
-                this.mainBranch = 'master';
+    /**
+     * Picks the ref branch statistics compare against. A base remembered for
+     * the branch wins, then the configured strategy; the upstream and closest
+     * ancestor strategies fall back to the candidate list.
+     */
+    private async resolveComparisonBase(
+        branch: string,
+        upstream: string | null,
+        token?: CancellationToken
+    ): Promise<{ comparisonBranch: string | null; isMainBranch: boolean }> {
+        const remembered = this.getRememberedBase(branch);
+        if (remembered && await this.refExists(remembered, token)) {
+            return { comparisonBranch: remembered, isMainBranch: false };
+        }
+
+        const isMainBranch = this.baseBranches.some(candidate => this.matchesBranchPattern(branch, candidate));
+
+        if (!isMainBranch && this.comparisonStrategy === 'upstream') {
+            if (upstream) {
+                return { comparisonBranch: upstream, isMainBranch };
             }
-            
-            // Check for upstream branches
-            if (branchList.some(b => b.includes('remotes/origin/main'))) {
-                this.upstreamBranch = 'origin/main';
-                if (!this.mainBranch) {
-                    this.mainBranch = 'main';
+        }
+
+        if (!isMainBranch && this.comparisonStrategy === 'closestAncestor') {
+            const branches = await this.listBranches(maxAncestorCandidates, token);
+            const refs = [...branches.local, ...branches.remote.map(name => `${this.baseRemote}/${name}`)]
+                .filter(ref => ref !== branch && ref !== upstream);
+            const ancestor = await this.findClosestAncestor(refs, token);
+            if (ancestor) {
+                return { comparisonBranch: ancestor, isMainBranch };
+            }
+        }
+
+        // Find main branch among the configured candidates
+        await this.findMainBranch(branch, token);
+
+        // Get the best comparison branch (local or upstream, whichever is later)
+        const comparisonBranch = this.mainBranch ? await this.getComparisonBranch(token) : null;
+        return { comparisonBranch, isMainBranch };
+    }
+
+    private async findMainBranch(currentBranch: string, token?: CancellationToken): Promise<void> {
+        this.mainBranch = null;
+        this.upstreamBranch = null;
+        this.localMainExists = false;
+
+        try {
+            const branches = await this.listBranches(undefined, token);
+
+            // Candidates are checked in order; patterns pick the closest matching ancestor
+            for (const candidate of this.baseBranches) {
+                let name: string | null = candidate;
+                if (candidate.includes('*')) {
+                    const matches = Array.from(new Set([...branches.local, ...branches.remote]))
+                        .filter(b => b !== currentBranch && this.matchesBranchPattern(b, candidate));
+                    const ancestor = await this.findClosestAncestor(
+                        matches.map(b => branches.local.includes(b) ? b : `${this.baseRemote}/${b}`),
+                        token
+                    );
+                    name = ancestor ? ancestor.replace(new RegExp(`^${escapeRegExp(this.baseRemote)}/`), '') : null;
+                }
+
+                if (!name) {
+                    continue;
                 }
-            } else if (branchList.some(b => b.includes('remotes/origin/master'))) {
-                this.upstreamBranch = 'origin/master';
-                if (!this.mainBranch) {
-                    this.mainBranch = 'master';
+
+                const localExists = branches.local.includes(name);
+                const remoteExists = branches.remote.includes(name);
+                if (localExists || remoteExists) {
+                    this.mainBranch = name;
+                    this.localMainExists = localExists;
+                    this.upstreamBranch = remoteExists ? `${this.baseRemote}/${name}` : null;
+                    return;
                 }
             }
         } catch {
@@ -148,7 +493,211 @@ export class GitManager {
         }
     }
 
-    private async getComparisonBranch(): Promise<string | null> {
+    /**
+     * Local branches and the branches of the configured remote, most recently
+     * committed first. Remote branches are returned without the remote prefix.
+     */
+    public async listBranches(limit?: number, token?: CancellationToken): Promise<BranchList> {
+        const countArgs = limit ? [`--count=${limit}`] : [];
+        const refs = await this.execGit(
+            ['for-each-ref', '--sort=-committerdate', '--format=%(refname)', ...countArgs, 'refs/heads', `refs/remotes/${this.baseRemote}`],
+            { token }
+        );
+        const localPrefix = 'refs/heads/';
+        const remotePrefix = `refs/remotes/${this.baseRemote}/`;
+        const local: string[] = [];
+        const remote: string[] = [];
+
+        for (const ref of refs.split('\n').map(r => r.trim()).filter(r => r)) {
+            if (ref.startsWith(localPrefix)) {
+                local.push(ref.slice(localPrefix.length));
+            } else if (ref.startsWith(remotePrefix) && ref !== `${remotePrefix}HEAD`) {
+                remote.push(ref.slice(remotePrefix.length));
+            }
+        }
+
+        return { local, remote };
+    }
+
+    /**
+     * Local and remote branches and tags, most recent first, and the latest
+     * commits reachable from HEAD, to choose the refs of a comparison from.
+     */
+    public async listRefs(commitLimit: number, token?: CancellationToken): Promise<RefList> {
+        const refs: RefList = { local: [], remote: [], tags: [], commits: [] };
+        const prefixes: Array<[string, string[]]> = [
+            ['refs/heads/', refs.local],
+            ['refs/remotes/', refs.remote],
+            ['refs/tags/', refs.tags]
+        ];
+
+        await this.streamGit(
+            ['for-each-ref', '--sort=-creatordate', '--format=%(refname)', 'refs/heads', 'refs/remotes', 'refs/tags'],
+            ref => {
+                const match = prefixes.find(([prefix]) => ref.startsWith(prefix));
+                // Skip the symbolic `origin/HEAD` style refs
+                if (match && !ref.endsWith('/HEAD')) {
+                    match[1].push(ref.slice(match[0].length));
+                }
+            },
+            { token }
+        );
+
+        try {
+            await this.streamGit(['log', `-${commitLimit}`, '--format=%H%x09%h%x09%ct%x09%s'], line => {
+                const [hash, shortHash, timestamp, ...subject] = line.split('\t');
+                if (hash && shortHash) {
+                    refs.commits.push({ hash, shortHash, subject: subject.join('\t'), timestamp: parseInt(timestamp) * 1000 });
+                }
+            }, { token });
+        } catch {
+            // No commits yet
+        }
+
+        return refs;
+    }
+
+    /**
+     * Diff statistics between two refs, split by the path filter like the
+     * branch statistics. Renames are reported under their new path.
+     */
+    public async getRefDiff(from: string, to: string, notation: RangeNotation, token?: CancellationToken): Promise<NumstatTotals> {
+        const output = await this.execGit(['diff', `${from}${notation}${to}`, '--numstat', ...diffScope], { token });
+        return this.parseNumstat(output);
+    }
+
+    /** The commit hash a ref points to, or null when it does not name a commit */
+    public async resolveCommit(ref: string, token?: CancellationToken): Promise<string | null> {
+        try {
+            return await this.execGit(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], { token }) || null;
+        } catch {
+            return null;
+        }
+    }
+
+    public async getUpstreamBranch(token?: CancellationToken): Promise<string | null> {
+        try {
+            const upstream = await this.execGit(['rev-parse', '--abbrev-ref', '--symbolic-full-name', '@{upstream}'], { token });
+            return upstream || null;
+        } catch {
+            // No upstream configured
+            return null;
+        }
+    }
+
+    public getRememberedBase(branch: string): string | undefined {
+        return this.state?.get<{ [branch: string]: string }>(this.getStateKey(), {})[branch];
+    }
+
+    public async setRememberedBase(branch: string, base: string | undefined): Promise<void> {
+        if (!this.state) {
+            return;
+        }
+        const bases = { ...this.state.get<{ [branch: string]: string }>(this.getStateKey(), {}) };
+        if (base) {
+            bases[branch] = base;
+        } else {
+            delete bases[branch];
+        }
+        await this.state.update(this.getStateKey(), bases);
+    }
+
+    public get candidateBranches(): string[] {
+        return this.baseBranches;
+    }
+
+    public get remoteName(): string {
+        return this.baseRemote;
+    }
+
+    private getStateKey(): string {
+        return `gitStats.comparisonBase:${this.workspaceRoot}`;
+    }
+
+    /**
+     * The ref whose merge base with HEAD is closest, i.e. with the fewest
+     * commits on HEAD that it does not contain. Refs containing HEAD are skipped.
+     * Only the most recent refs are inspected, and the answer is reused until
+     * HEAD or one of them moves.
+     */
+    private async findClosestAncestor(refs: string[], token?: CancellationToken): Promise<string | null> {
+        refs = refs.slice(0, maxAncestorCandidates);
+        if (refs.length === 0) {
+            return null;
+        }
+
+        let cacheKey: string | null = null;
+        try {
+            const [head, ...commits] = (await this.execGit(['rev-parse', 'HEAD', ...refs], { token })).split('\n');
+            if (head !== this.ancestorCacheHead) {
+                this.ancestorCache.clear();
+                this.ancestorCacheHead = head;
+            }
+            cacheKey = refs.map((ref, i) => `${ref}=${commits[i]}`).join(' ');
+            const cached = this.ancestorCache.get(cacheKey);
+            if (cached !== undefined) {
+                return cached;
+            }
+        } catch {
+            // Unborn HEAD or a ref deleted meanwhile; search without the cache
+        }
+
+        let closest: string | null = null;
+        let closestCount = Infinity;
+
+        for (const ref of refs) {
+            try {
+                const count = parseInt(await this.execGit(['rev-list', '--count', `${ref}..HEAD`], { token })) || 0;
+                if (count > 0 && count < closestCount) {
+                    closest = ref;
+                    closestCount = count;
+                }
+            } catch {
+                // Unrelated history or invalid ref
+            }
+        }
+
+        if (cacheKey !== null) {
+            this.ancestorCache.set(cacheKey, closest);
+        }
+        return closest;
+    }
+
+    public async getMergeBase(base: string, ref: string, token?: CancellationToken): Promise<string | null> {
+        try {
+            return await this.execGit(['merge-base', base, ref], { token }) || null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Counts the commits of `ref` missing from `base` (ahead) and of `base`
+     * missing from `ref` (behind). Unrelated or unknown refs count as zero.
+     */
+    public async getAheadBehind(base: string, ref: string, token?: CancellationToken): Promise<AheadBehind> {
+        try {
+            const counts = await this.execGit(['rev-list', '--left-right', '--count', `${base}...${ref}`], { token });
+            const [behind, ahead] = counts.split(/\s+/).map(count => parseInt(count) || 0);
+            return { ahead: ahead || 0, behind: behind || 0 };
+        } catch {
+            return { ahead: 0, behind: 0 };
+        }
+    }
+
+    private async refExists(ref: string, token?: CancellationToken): Promise<boolean> {
+        return await this.resolveCommit(ref, token) !== null;
+    }
+
+    private matchesBranchPattern(branch: string, pattern: string): boolean {
+        if (!pattern.includes('*')) {
+            return branch === pattern;
+        }
+        const regex = new RegExp('^' + pattern.split('*').map(escapeRegExp).join('.*') + '$');
+        return regex.test(branch);
+    }
+
+    private async getComparisonBranch(token?: CancellationToken): Promise<string | null> {
         // If we don't have a main branch, return null
         if (!this.mainBranch) {
             return null;
@@ -159,18 +708,15 @@ export class GitManager {
             return this.mainBranch;
         }
 
-        try {
-            // Try to fetch latest from upstream (with timeout to avoid hanging)
-            try {
-                await this.execGit('fetch origin --timeout=5');
-            } catch {
-                // Fetch failed (offline or timeout), continue with local comparison
-                console.log('Git Stats: Could not fetch from upstream, using local branches');
-            }
+        // If the base only exists on the remote, use it directly
+        if (!this.localMainExists) {
+            return this.upstreamBranch;
+        }
 
+        try {
             // Compare local main with upstream to see which is ahead
-            const localCommit = await this.execGit(`rev-parse ${this.mainBranch}`);
-            const upstreamCommit = await this.execGit(`rev-parse ${this.upstreamBranch}`);
+            const localCommit = await this.execGit(['rev-parse', this.mainBranch], { token });
+            const upstreamCommit = await this.execGit(['rev-parse', this.upstreamBranch], { token });
 
             // If they're the same, use local (to avoid network dependencies)
             if (localCommit === upstreamCommit) {
@@ -180,7 +726,7 @@ export class GitManager {
             // Check if local is behind upstream
             try {
                 // Check if local main is ancestor of upstream (meaning upstream is ahead)
-                await this.execGit(`merge-base --is-ancestor ${this.mainBranch} ${this.upstreamBranch}`);
+                await this.execGit(['merge-base', '--is-ancestor', this.mainBranch, this.upstreamBranch], { token });
                 // If command succeeds, local is behind upstream
                 return this.upstreamBranch;
             } catch {
@@ -190,7 +736,7 @@ export class GitManager {
             // Check if upstream is behind local
             try {
                 // Check if upstream is ancestor of local (meaning local is ahead)
-                await this.execGit(`merge-base --is-ancestor ${this.upstreamBranch} ${this.mainBranch}`);
+                await this.execGit(['merge-base', '--is-ancestor', this.upstreamBranch, this.mainBranch], { token });
                 // If command succeeds, upstream is behind local
                 return this.mainBranch;
             } catch {
@@ -198,19 +744,10 @@ export class GitManager {
             }
 
             // If branches have diverged, compare commit counts from common ancestor
-            try {
-                const localAhead = await this.execGit(`rev-list --count ${this.upstreamBranch}..${this.mainBranch}`);
-                const upstreamAhead = await this.execGit(`rev-list --count ${this.mainBranch}..${this.upstreamBranch}`);
-                
-                const localCount = parseInt(localAhead) || 0;
-                const upstreamCount = parseInt(upstreamAhead) || 0;
-                
-                // Use whichever branch has more commits ahead
-                return upstreamCount > localCount ? this.upstreamBranch : this.mainBranch;
-            } catch {
-                // If comparison fails, fall back to local
-                return this.mainBranch;
-            }
+            const divergence = await this.getAheadBehind(this.upstreamBranch, this.mainBranch, token);
+
+            // Use whichever branch has more commits ahead
+            return divergence.behind > divergence.ahead ? this.upstreamBranch : this.mainBranch;
         } catch (error) {
             console.error('Git Stats: Error determining comparison branch:', error);
             // On any error, fall back to local main branch
@@ -218,38 +755,60 @@ export class GitManager {
         }
     }
 
-    private async getWorkingChanges(): Promise<{ additions: number; deletions: number; untrackedLines: number }> {
+    private async getWorkingChanges(token?: CancellationToken): Promise<WorkingChanges> {
         let additions = 0;
         let deletions = 0;
         let untrackedLines = 0;
+        let excludedChurn = 0;
+        let stagedFiles: NumstatEntry[] = [];
+        let unstagedFiles: NumstatEntry[] = [];
+        const untrackedFiles: NumstatEntry[] = [];
+        let excludedStagedFiles: NumstatEntry[] = [];
+        let excludedUnstagedFiles: NumstatEntry[] = [];
 
         try {
             // Get staged changes
-            const stagedDiff = await this.execGit('diff --cached --numstat');
+            const stagedDiff = await this.execGit(['diff', '--cached', '--numstat', ...diffScope], { token });
             const stagedStats = this.parseNumstat(stagedDiff);
             additions += stagedStats.additions;
             deletions += stagedStats.deletions;
+            stagedFiles = stagedStats.files;
+            excludedChurn += stagedStats.excludedChurn;
+            excludedStagedFiles = stagedStats.excludedFiles;
 
             // Get unstaged changes
-            const unstagedDiff = await this.execGit('diff --numstat');
+            const unstagedDiff = await this.execGit(['diff', '--numstat', ...diffScope], { token });
             const unstagedStats = this.parseNumstat(unstagedDiff);
             additions += unstagedStats.additions;
             deletions += unstagedStats.deletions;
+            unstagedFiles = unstagedStats.files;
+            excludedChurn += unstagedStats.excludedChurn;
+            excludedUnstagedFiles = unstagedStats.excludedFiles;
 
-            // Count lines in untracked files
+            // Count lines in untracked files; filtered out and binary files are not read
             try {
-                const untrackedFiles = await this.execGit('ls-files --others --exclude-standard');
-                if (untrackedFiles) {
-                    const files = untrackedFiles.split('\n').filter(f => f.trim());
-                    for (const file of files) {
-                        try {
-                            const filePath = path.join(this.workspaceRoot, file);
-                            const content = await readFile(filePath, 'utf-8');
-                            const lines = content.split('\n').length;
-                            untrackedLines += lines;
-                        } catch {
-                            // Skip files we can't read
+                const files: string[] = [];
+                await this.streamGit(['ls-files', '--others', '--exclude-standard'], file => {
+                    if (file.trim() && this.pathFilter(file)) {
+                        files.push(file);
+                    }
+                }, { token });
+                for (const file of files) {
+                    if (token?.isCancellationRequested) {
+                        break;
+                    }
+                    try {
+                        const filePath = path.join(this.workspaceRoot, file);
+                        if (await isBinaryFile(filePath)) {
+                            continue;
                         }
+                        const content = await readFile(filePath, 'utf-8');
+                        // Counted like the line counter does, so a final newline adds no line
+                        const lines = classifyLines(content, file).lines;
+                        untrackedLines += lines;
+                        untrackedFiles.push({ path: file, additions: lines, deletions: 0 });
+                    } catch {
+                        // Skip files we can't read
                     }
                 }
             } catch {
@@ -259,84 +818,119 @@ export class GitManager {
             console.error('Error getting working changes:', error);
         }
 
-        return { additions, deletions, untrackedLines };
+        return {
+            additions,
+            deletions,
+            untrackedLines,
+            excludedChurn,
+            stagedFiles,
+            unstagedFiles,
+            untrackedFiles,
+            excludedStagedFiles,
+            excludedUnstagedFiles
+        };
     }
 
-    private parseNumstat(numstatOutput: string): { additions: number; deletions: number } {
+    private mergeFileChanges(
+        stagedFiles: NumstatEntry[],
+        unstagedFiles: NumstatEntry[],
+        untrackedFiles: NumstatEntry[],
+        branchFiles: NumstatEntry[]
+    ): FileChange[] {
+        const changes = new Map<string, FileChange>();
+        const entryFor = (filePath: string): FileChange => {
+            let change = changes.get(filePath);
+            if (!change) {
+                change = {
+                    path: filePath,
+                    stagedAdditions: 0,
+                    stagedDeletions: 0,
+                    unstagedAdditions: 0,
+                    unstagedDeletions: 0,
+                    untrackedLines: 0,
+                    branchAdditions: 0,
+                    branchDeletions: 0
+                };
+                changes.set(filePath, change);
+            }
+            return change;
+        };
+
+        for (const file of stagedFiles) {
+            const change = entryFor(file.path);
+            change.stagedAdditions += file.additions;
+            change.stagedDeletions += file.deletions;
+        }
+        for (const file of unstagedFiles) {
+            const change = entryFor(file.path);
+            change.unstagedAdditions += file.additions;
+            change.unstagedDeletions += file.deletions;
+        }
+        for (const file of untrackedFiles) {
+            entryFor(file.path).untrackedLines += file.additions;
+        }
+        for (const file of branchFiles) {
+            const change = entryFor(file.path);
+            change.branchAdditions += file.additions;
+            change.branchDeletions += file.deletions;
+        }
+
+        return Array.from(changes.values()).sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    /**
+     * Sums `--numstat` output over the files passing the path filter; the
+     * churn and entries of the other files are reported separately.
+     */
+    private parseNumstat(numstatOutput: string): NumstatTotals {
         let additions = 0;
         let deletions = 0;
+        let excludedChurn = 0;
+        const files: NumstatEntry[] = [];
+        const excludedFiles: NumstatEntry[] = [];
 
         if (!numstatOutput) {
-            return { additions, deletions };
+            return { additions, deletions, files, excludedChurn, excludedFiles };
         }
 
         const lines = numstatOutput.split('\n').filter(line => line.trim());
         
         for (const line of lines) {
             const parts = line.split('\t');
-            if (parts.length >= 2) {
+            if (parts.length >= 3) {
+                // Binary files are shown as '-' and count as zero
                 const added = parseInt(parts[0]) || 0;
                 const deleted = parseInt(parts[1]) || 0;
-                // Skip binary files (shown as '-')
-                if (!isNaN(added) && !isNaN(deleted)) {
-                    additions += added;
-                    deletions += deleted;
+                const filePath = parseNumstatPath(parts.slice(2).join('\t'));
+                if (!this.pathFilter(filePath)) {
+                    excludedChurn += added + deleted;
+                    excludedFiles.push({ path: filePath, additions: added, deletions: deleted });
+                    continue;
                 }
+                additions += added;
+                deletions += deleted;
+                files.push({ path: filePath, additions: added, deletions: deleted });
             }
         }
 
-        return { additions, deletions };
+        return { additions, deletions, files, excludedChurn, excludedFiles };
     }
 
-    public async getCurrentHead(): Promise<string | null> {
+    public async getCurrentHead(token?: CancellationToken): Promise<string | null> {
         try {
-            const head = await this.execGit('rev-parse HEAD');
+            const head = await this.execGit(['rev-parse', 'HEAD'], { token });
             return head;
         } catch {
             return null;
         }
     }
 
-    public async getStatus(): Promise<string> {
-        try {
-            const status = await this.execGit('status --porcelain');
-            // Parse status output to match what was expected
-            const files = status.split('\n').filter(line => line.trim());
-            const result = {
-                modified: [] as string[],
-                created: [] as string[],
-                deleted: [] as string[],
-                not_added: [] as string[]
-            };
-
-            for (const line of files) {
-                if (line.length < 3) continue;
-                const statusCode = line.substring(0, 2);
-                const filename = line.substring(3);
-
-                if (statusCode.includes('M')) {
-                    result.modified.push(filename);
-                } else if (statusCode === '??') {
-                    result.not_added.push(filename);
-                } else if (statusCode.includes('A')) {
-                    result.created.push(filename);
-                } else if (statusCode.includes('D')) {
-                    result.deleted.push(filename);
-                }
-            }
-
-            return JSON.stringify(result);
-        } catch {
-            return '';
-        }
-    }
-
-    public async getRepositoryAge(): Promise<{ firstCommitDate: Date | null; totalCommits: number; contributors: number }> {
+    public async getRepositoryAge(token?: CancellationToken): Promise<RepositoryAge> {
         try {
             // Get first commit date
             let firstCommitDate: Date | null = null;
             try {
-                const firstCommit = await this.execGit('log --reverse --format=%at --max-count=1');
+                const firstCommit = await this.execGit(['log', '--reverse', '--format=%at', '--max-count=1'], { token });
                 if (firstCommit) {
                     firstCommitDate = new Date(parseInt(firstCommit) * 1000);
                 }
@@ -347,26 +941,20 @@ export class GitManager {
             // Get total commits
             let totalCommits = 0;
             try {
-                const commitCount = await this.execGit('rev-list --count HEAD');
+                const commitCount = await this.execGit(['rev-list', '--count', 'HEAD'], { token });
                 totalCommits = parseInt(commitCount) || 0;
             } catch {
                 // No commits yet
             }
 
             // Get number of contributors
-            let contributors = 0;
+            const emails = new Set<string>();
             try {
-                const authorList = await this.execGit('log --format=%ae | sort -u | wc -l');
-                contributors = parseInt(authorList) || 0;
+                await this.streamGit(['log', '--format=%ae'], email => emails.add(email), { token });
             } catch {
-                // Try alternative method
-                try {
-                    const authors = await this.execGit('shortlog -sn');
-                    contributors = authors.split('\n').filter(line => line.trim()).length;
-                } catch {
-                    // No contributors
-                }
+                // No contributors
             }
+            const contributors = emails.size;
 
             return { firstCommitDate, totalCommits, contributors };
         } catch {
@@ -374,11 +962,11 @@ export class GitManager {
         }
     }
 
-    public async getRecentlyModifiedFiles(limit: number = 10): Promise<Array<{ path: string; date: Date }>> {
+    public async getRecentlyModifiedFiles(limit: number = 10, token?: CancellationToken): Promise<RecentFile[]> {
         try {
-            const recentFiles = await this.execGit(`log --name-only --pretty=format:%at -${limit * 2}`);
+            const recentFiles = await this.execGit(['log', '--name-only', '--relative', '--pretty=format:%at', `-${limit * 2}`], { token });
             const lines = recentFiles.split('\n');
-            const files: Array<{ path: string; date: Date }> = [];
+            const files: RecentFile[] = [];
             const seen = new Set<string>();
             let currentDate: Date | null = null;
 
@@ -397,4 +985,130 @@ export class GitManager {
             return [];
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Counts the commits reachable from HEAD that touched each file within
+     * the last `windowDays` days. Merge commits are not counted.
+     */
+    public async getChangeFrequency(windowDays: number, token?: CancellationToken): Promise<Map<string, number>> {
+        const frequency = new Map<string, number>();
+        try {
+            await this.streamGit(
+                ['log', `--since=${Math.floor(windowDays)}.days.ago`, '--no-merges', '--no-renames', '--name-only', '--relative', '--format=', 'HEAD'],
+                line => {
+                    const file = line.trim();
+                    if (file) {
+                        frequency.set(file, (frequency.get(file) || 0) + 1);
+                    }
+                },
+                { token }
+            );
+        } catch {
+            // No commits yet
+        }
+        return frequency;
+    }
+
+    /**
+     * Author, author date and the author's time zone of every commit
+     * reachable from HEAD, honouring `.mailmap`.
+     */
+    public async getAuthoredCommits(token?: CancellationToken): Promise<AuthoredCommit[]> {
+        try {
+            const commits: AuthoredCommit[] = [];
+
+            await this.streamGit(['log', '--format=%at,%ai,%aE,%aN', 'HEAD'], line => {
+                // %ai is "2025-01-30 10:12:00 +0100"; the name may itself contain commas
+                const match = line.match(/^(\d+),\S+ \S+ ([+-])(\d{2})(\d{2}),([^,]*),(.*)$/);
+                if (!match) {
+                    return;
+                }
+                const offset = parseInt(match[3]) * 60 + parseInt(match[4]);
+                commits.push({
+                    timestamp: parseInt(match[1]) * 1000,
+                    utcOffset: match[2] === '-' ? -offset : offset,
+                    email: match[5],
+                    author: match[6]
+                });
+            }, { token });
+
+            return commits;
+        } catch {
+            // No commits yet
+            return [];
+        }
+    }
+
+    public async getUserEmail(token?: CancellationToken): Promise<string | null> {
+        try {
+            return await this.execGit(['config', 'user.email'], { token }) || null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Returns the per-file line changes of every commit reachable from HEAD,
+     * oldest first. Merge commits carry no numstat, so summing all entries
+     * yields the line count of each file at HEAD.
+     */
+    public async getNumstatHistory(token?: CancellationToken): Promise<CommitNumstat[]> {
+        try {
+            const commits: CommitNumstat[] = [];
+            let current: CommitNumstat | null = null;
+
+            // History of large repositories is streamed rather than buffered
+            await this.streamGit(['log', '--reverse', '--no-renames', '--numstat', '--relative', '--format=@%H,%ct', 'HEAD'], line => {
+                if (line.startsWith('@')) {
+                    const [commit, timestamp] = line.slice(1).split(',');
+                    current = { commit, timestamp: parseInt(timestamp) * 1000, files: [] };
+                    commits.push(current);
+                    return;
+                }
+
+                const parts = line.split('\t');
+                if (!current || parts.length < 3) {
+                    return;
+                }
+
+                // Skip binary files (shown as '-')
+                const additions = parseInt(parts[0]);
+                const deletions = parseInt(parts[1]);
+                if (!isNaN(additions) && !isNaN(deletions)) {
+                    current.files.push({ path: parts.slice(2).join('\t'), additions, deletions });
+                }
+            }, { token });
+
+            return commits;
+        } catch (error) {
+            console.error('Git Stats: Could not read commit history:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Counts the lines of a file at HEAD surviving from each author. Blame
+     * applies the repository's .mailmap to the reported names and emails.
+     */
+    public async getBlameAuthors(relativePath: string, token?: CancellationToken): Promise<BlameAuthor[]> {
+        const authors = new Map<string, BlameAuthor>();
+        let author = '';
+        let email = '';
+
+        // Line porcelain repeats the headers for every line, so it is not buffered
+        await this.streamGit(['blame', '--line-porcelain', 'HEAD', '--', relativePath], line => {
+            if (line.startsWith('author ')) {
+                author = line.slice('author '.length);
+            } else if (line.startsWith('author-mail ')) {
+                email = line.slice('author-mail '.length).replace(/^<|>$/g, '');
+            } else if (line.startsWith('\t')) {
+                const key = `${author} <${email}>`;
+                const entry = authors.get(key) || { author, email, lines: 0 };
+                entry.lines++;
+                authors.set(key, entry);
+            }
+        }, { token });
+
+        return Array.from(authors.values()).sort((a, b) => b.lines - a.lines);
+    }
+}
@@ -0,0 +1,247 @@
+import { ChildProcessWithoutNullStreams, spawn } from 'child_process';
+import { StringDecoder } from 'string_decoder';
+
+/** The part of `vscode.CancellationToken` the runner relies on, so it also works outside VS Code */
+export interface CancellationToken {
+    readonly isCancellationRequested: boolean;
+    onCancellationRequested(listener: () => void): { dispose(): void };
+}
+
+export interface GitRunOptions {
+    /** Kills the process after this many milliseconds; 0 waits for it indefinitely */
+    timeout?: number;
+    /** Kills the process, or drops it from the queue, once cancellation is requested */
+    token?: CancellationToken;
+    /** Written to the standard input of the process, which is then closed */
+    input?: string;
+}
+
+/**
+ * Runs git with an argument array, so nothing is interpreted by a shell.
+ * GitManager and LineCounter take a runner, which lets tests replace git
+ * with a fake.
+ */
+export interface GitRunner {
+    /** Resolves with the trimmed standard output; rejects when git exits with an error */
+    run(cwd: string, args: string[], options?: GitRunOptions): Promise<string>;
+    /** Resolves with the standard output as is, for file contents that may not be text */
+    runRaw(cwd: string, args: string[], options?: GitRunOptions): Promise<Buffer>;
+    /** Hands over each line of standard output as it arrives instead of buffering all of it */
+    stream(cwd: string, args: string[], onLine: (line: string) => void, options?: GitRunOptions): Promise<void>;
+}
+
+export class GitError extends Error {
+    /** Null when git could not be started or was killed */
+    public readonly exitCode: number | null;
+    public readonly stderr: string;
+
+    constructor(message: string, exitCode: number | null, stderr: string) {
+        super(message);
+        this.name = 'GitError';
+        this.exitCode = exitCode;
+        this.stderr = stderr;
+    }
+}
+
+export class GitCancelledError extends Error {
+    constructor(command?: string) {
+        super(command ? `Git command cancelled: ${command}` : 'Cancelled');
+        this.name = 'GitCancelledError';
+    }
+}
+
+/** Throws a GitCancelledError once cancellation is requested */
+export function throwIfCancelled(token: CancellationToken | undefined): void {
+    if (token?.isCancellationRequested) {
+        throw new GitCancelledError();
+    }
+}
+
+/**
+ * Keeps git from refreshing the index as a side effect, which would retrigger the index
+ * watcher, and makes fetches fail instead of prompting for credentials.
+ */
+const gitEnvironment: NodeJS.ProcessEnv = { ...process.env };
+gitEnvironment.GIT_OPTIONAL_LOCKS = '0';
+gitEnvironment.GIT_TERMINAL_PROMPT = '0';
+
+/** Starts a git process; tests substitute one to observe or stand in for git */
+export type GitSpawner = (cwd: string, args: string[]) => ChildProcessWithoutNullStreams;
+
+const spawnGit: GitSpawner = (cwd, args) => spawn('git', args, { cwd, env: gitEnvironment, windowsHide: true });
+
+/** Git processes run at the same time unless configured otherwise */
+export const defaultMaxGitProcesses = 4;
+
+/**
+ * Spawns git processes, at most `maxConcurrency` at a time across every
+ * folder. Further calls wait in a queue in the order they were made.
+ */
+export class GitProcessRunner implements GitRunner {
+    private maxConcurrency: number;
+    private running: number = 0;
+    private queue: Array<() => void> = [];
+    private spawner: GitSpawner;
+
+    constructor(maxConcurrency: number = defaultMaxGitProcesses, spawner: GitSpawner = spawnGit) {
+        this.maxConcurrency = Math.max(1, Math.floor(maxConcurrency));
+        this.spawner = spawner;
+    }
+
+    public setMaxConcurrency(maxConcurrency: number): void {
+        this.maxConcurrency = Math.max(1, Math.floor(maxConcurrency));
+        this.startQueued();
+    }
+
+    public async run(cwd: string, args: string[], options: GitRunOptions = {}): Promise<string> {
+        return (await this.runRaw(cwd, args, options)).toString('utf8').trim();
+    }
+
+    public async runRaw(cwd: string, args: string[], options: GitRunOptions = {}): Promise<Buffer> {
+        const chunks: Buffer[] = [];
+        await this.execute(cwd, args, options, chunk => chunks.push(chunk));
+        return Buffer.concat(chunks);
+    }
+
+    public async stream(cwd: string, args: string[], onLine: (line: string) => void, options: GitRunOptions = {}): Promise<void> {
+        // The decoder keeps multi-byte characters split across chunks intact
+        const decoder = new StringDecoder('utf8');
+        let partial = '';
+        const emit = (text: string) => {
+            const lines = (partial + text).split('\n');
+            partial = lines.pop() || '';
+            lines.forEach(onLine);
+        };
+
+        await this.execute(cwd, args, options, chunk => emit(decoder.write(chunk)));
+        emit(decoder.end());
+        if (partial) {
+            onLine(partial);
+        }
+    }
+
+    private async execute(cwd: string, args: string[], options: GitRunOptions, onData: (chunk: Buffer) => void): Promise<void> {
+        await this.acquire(args, options.token);
+        try {
+            await this.runProcess(cwd, args, options, onData);
+        } finally {
+            this.running--;
+            this.startQueued();
+        }
+    }
+
+    /** Waits for a free process slot; cancelled calls leave the queue without running */
+    private acquire(args: string[], token: CancellationToken | undefined): Promise<void> {
+        if (token?.isCancellationRequested) {
+            return Promise.reject(new GitCancelledError(formatCommand(args)));
+        }
+        if (this.running < this.maxConcurrency) {
+            this.running++;
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve, reject) => {
+            const start = () => {
+                cancellation?.dispose();
+                this.running++;
+                resolve();
+            };
+            const cancellation = token?.onCancellationRequested(() => {
+                cancellation?.dispose();
+                this.queue = this.queue.filter(queued => queued !== start);
+                reject(new GitCancelledError(formatCommand(args)));
+            });
+            this.queue.push(start);
+        });
+    }
+
+    private startQueued(): void {
+        while (this.running < this.maxConcurrency && this.queue.length > 0) {
+            (this.queue.shift() as () => void)();
+        }
+    }
+
+    private runProcess(cwd: string, args: string[], options: GitRunOptions, onData: (chunk: Buffer) => void): Promise<void> {
+        const command = formatCommand(args);
+        const timeout = options.timeout || 0;
+
+        return new Promise((resolve, reject) => {
+            const child = this.spawner(cwd, args);
+            const stderr: Buffer[] = [];
+            let failure: Error | null = null;
+            let settled = false;
+
+            // Settles right away: a process started by git, like a shell alias,
+            // may keep the pipes open and delay 'close' until it exits too
+            const stop = (error: Error) => {
+                if (!failure) {
+                    failure = error;
+                    child.kill();
+                    child.stdin.destroy();
+                    child.stdout.destroy();
+                    child.stderr.destroy();
+                    settle(error);
+                }
+            };
+            const timer = timeout > 0
+                ? setTimeout(() => stop(new GitError(`Git command timed out after ${timeout}ms: ${command}`, null, '')), timeout)
+                : undefined;
+            const cancellation = options.token?.onCancellationRequested(() => stop(new GitCancelledError(command)));
+
+            const settle = (error: Error | null) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                if (timer) {
+                    clearTimeout(timer);
+                }
+                cancellation?.dispose();
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve();
+                }
+            };
+
+            child.stdout.on('data', (chunk: Buffer) => {
+                if (failure) {
+                    return;
+                }
+                try {
+                    onData(chunk);
+                } catch (error) {
+                    stop(error instanceof Error ? error : new Error(String(error)));
+                }
+            });
+            child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+            if (options.input !== undefined) {
+                // Git exiting early closes the pipe; the exit code reports the failure
+                child.stdin.on('error', () => undefined);
+                child.stdin.end(options.input);
+            }
+
+            child.on('error', error => {
+                // Git is missing or the folder is gone
+                settle(failure || new GitError(`Could not run ${command}: ${error.message}`, null, ''));
+            });
+            child.on('close', code => {
+                const errorOutput = Buffer.concat(stderr).toString('utf8').trim();
+                if (failure) {
+                    settle(failure);
+                } else if (code !== 0) {
+                    settle(new GitError(`Git command failed: ${command}${errorOutput ? `\n${errorOutput}` : ''}`, code, errorOutput));
+                } else {
+                    settle(null);
+                }
+            });
+        });
+    }
+}
+
+function formatCommand(args: string[]): string {
+    return ['git', ...args].join(' ');
+}
+
+/** Runner shared by every folder, so the process limit applies to the whole workspace */
+export const sharedGitRunner = new GitProcessRunner();
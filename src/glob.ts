@@ -0,0 +1,227 @@
+/** Name of the repository-level exclusion file, in `.gitignore` syntax */
+export const ignoreFileName = '.gitstatsignore';
+
+export interface IgnoreRule {
+    /** Matches a path relative to the root; directories are tested with a trailing slash */
+    regex: RegExp;
+    /** `!pattern`: re-includes paths excluded by an earlier rule */
+    negated: boolean;
+    /** Prepended to tested paths, for rules relative to a parent of the root */
+    prefix: string;
+}
+
+/**
+ * Compiles `excludePatterns` style globs: `*` and `?` stay within a path
+ * segment, `**` spans segments, `[abc]` and `{a,b}` are supported and a
+ * leading `!` re-includes what an earlier pattern excluded.
+ */
+export function parseGlobPatterns(patterns: string[]): IgnoreRule[] {
+    return patterns
+        .map(pattern => pattern.trim())
+        .filter(pattern => pattern.length > 0)
+        .map(pattern => {
+            const negated = pattern.startsWith('!');
+            const glob = (negated ? pattern.slice(1) : pattern).replace(/\\/g, '/').replace(/^\.?\//, '');
+            return createRule(glob, negated, false);
+        });
+}
+
+/**
+ * Compiles the content of a `.gitignore` style file. Patterns without a
+ * slash match at any depth, patterns with one are relative to the file's
+ * directory, and a trailing slash restricts a pattern to directories. The
+ * prefix locates the matched root below that directory, like `packages/app/`.
+ */
+export function parseIgnoreFile(content: string, prefix: string = ''): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        // Trailing spaces are ignored unless escaped
+        let line = rawLine.replace(/(?<!\\)\s+$/, '');
+        if (line === '' || line.startsWith('#')) {
+            continue;
+        }
+
+        const negated = line.startsWith('!');
+        if (negated) {
+            line = line.slice(1);
+        } else if (line.startsWith('\\#') || line.startsWith('\\!')) {
+            line = line.slice(1);
+        }
+
+        const directoryOnly = line.endsWith('/');
+        if (directoryOnly) {
+            line = line.slice(0, -1);
+        }
+        if (line === '') {
+            continue;
+        }
+
+        const anchored = line.includes('/');
+        const glob = anchored ? line.replace(/^\//, '') : `**/${line}`;
+        rules.push(createRule(glob, negated, directoryOnly, prefix));
+    }
+
+    return rules;
+}
+
+/**
+ * Decides whether relative paths are excluded by a list of rules. As in
+ * git, the last matching rule wins and nothing inside an excluded directory
+ * can be re-included. Directory results are memoized, so create a new
+ * matcher when the rules change.
+ */
+export class IgnoreMatcher {
+    private readonly rules: IgnoreRule[];
+    private readonly directories: Map<string, boolean> = new Map();
+
+    constructor(rules: IgnoreRule[]) {
+        this.rules = rules;
+    }
+
+    public isIgnored(relativePath: string, isDirectory: boolean = false): boolean {
+        if (this.rules.length === 0) {
+            return false;
+        }
+
+        const segments = relativePath.replace(/\\/g, '/').split('/').filter(segment => segment !== '' && segment !== '.');
+        let directory = '';
+        for (let i = 0; i < segments.length - 1; i++) {
+            directory += `${segments[i]}/`;
+            if (this.isDirectoryIgnored(directory)) {
+                return true;
+            }
+        }
+
+        const name = segments.join('/');
+        return isDirectory ? this.isDirectoryIgnored(`${name}/`) : this.matches(name);
+    }
+
+    private isDirectoryIgnored(directory: string): boolean {
+        let ignored = this.directories.get(directory);
+        if (ignored === undefined) {
+            ignored = this.matches(directory);
+            this.directories.set(directory, ignored);
+        }
+        return ignored;
+    }
+
+    private matches(testPath: string): boolean {
+        let ignored = false;
+        for (const rule of this.rules) {
+            if (rule.negated === ignored && rule.regex.test(rule.prefix + testPath)) {
+                ignored = !rule.negated;
+            }
+        }
+        return ignored;
+    }
+}
+
+function createRule(glob: string, negated: boolean, directoryOnly: boolean, prefix: string = ''): IgnoreRule {
+    // Directories are tested as `dir/`, so directory-only rules require the slash
+    const suffix = directoryOnly ? '/' : '/?';
+    return { regex: new RegExp(`^${globToRegExpSource(glob)}${suffix}$`), negated, prefix };
+}
+
+function globToRegExpSource(glob: string): string {
+    let source = '';
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+
+        if (char === '*') {
+            const segmentStart = i === 0 || glob[i - 1] === '/';
+            if (glob[i + 1] !== '*') {
+                // A whole-segment `*` must not match the empty name of `dir/`
+                const segmentEnd = i + 1 === glob.length || glob[i + 1] === '/';
+                source += segmentStart && segmentEnd ? '[^/]+' : '[^/]*';
+                continue;
+            }
+
+            // `**` only spans directories as a whole segment, elsewhere it is a `*`
+            if (segmentStart && glob[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            } else if (segmentStart && i + 2 === glob.length) {
+                // A trailing `/**` matches what is inside, not the directory itself,
+                // so a later `!` pattern can still re-include its files
+                source += i === 0 ? '.*' : '.+';
+                i += 1;
+            } else {
+                source += '[^/]*';
+                i += 1;
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const end = findClassEnd(glob, i);
+            if (end === -1) {
+                source += '\\[';
+                continue;
+            }
+            let content = glob.slice(i + 1, end);
+            const negatedClass = content.startsWith('!') || content.startsWith('^');
+            if (negatedClass) {
+                content = content.slice(1);
+            }
+            source += `[${negatedClass ? '^' : ''}${content.replace(/\\/g, '\\\\')}]`;
+            i = end;
+        } else if (char === '{') {
+            const alternatives = splitBraces(glob, i);
+            if (!alternatives) {
+                source += '\\{';
+                continue;
+            }
+            source += `(?:${alternatives.parts.map(globToRegExpSource).join('|')})`;
+            i = alternatives.end;
+        } else if (char === '\\' && i + 1 < glob.length) {
+            source += escapeRegExp(glob[++i]);
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+
+    return source;
+}
+
+function findClassEnd(glob: string, start: number): number {
+    let i = start + 1;
+    if (glob[i] === '!' || glob[i] === '^') {
+        i++;
+    }
+    // A `]` right after the opening bracket is part of the class
+    if (glob[i] === ']') {
+        i++;
+    }
+    const end = glob.indexOf(']', i);
+    return end === -1 || glob.slice(start, end).includes('/') ? -1 : end;
+}
+
+function splitBraces(glob: string, start: number): { parts: string[]; end: number } | null {
+    const parts: string[] = [];
+    let depth = 0;
+    let partStart = start + 1;
+
+    for (let i = start + 1; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '\\') {
+            i++;
+        } else if (char === '{') {
+            depth++;
+        } else if (char === '}' && depth > 0) {
+            depth--;
+        } else if (char === ',' && depth === 0) {
+            parts.push(glob.slice(partStart, i));
+            partStart = i + 1;
+        } else if (char === '}') {
+            parts.push(glob.slice(partStart, i));
+            return parts.length > 1 ? { parts, end: i } : null;
+        }
+    }
+
+    return null;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
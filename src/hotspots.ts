@@ -0,0 +1,72 @@
+import * as path from 'path';
+import { LineCountResult } from './lineCounter';
+
+export interface FileHotspot {
+    path: string;
+    /** Commits touching the file within the analysis window */
+    commits: number;
+    lines: number;
+    /** Commits times current lines: large files that keep changing score highest */
+    score: number;
+}
+
+export interface DirectoryHotspot {
+    path: string;
+    fileCount: number;
+    /** Sum of the commits of its files; a commit touching two files counts twice */
+    commits: number;
+    lines: number;
+    score: number;
+}
+
+export interface HotspotReport {
+    windowDays: number;
+    files: FileHotspot[];
+    directories: DirectoryHotspot[];
+}
+
+/**
+ * Ranks the counted files by change frequency times size, the usual
+ * heuristic for refactoring candidates, and rolls the scores up into every
+ * enclosing directory. Files that did not change within the window are left out.
+ */
+export function buildHotspotReport(
+    changeFrequency: Map<string, number>,
+    result: LineCountResult,
+    windowDays: number,
+    limit: number
+): HotspotReport {
+    const files: FileHotspot[] = [];
+    const directories = new Map<string, DirectoryHotspot>();
+
+    for (const file of result.files) {
+        // Git reports forward slashes, the file system walk native separators
+        const filePath = file.path.split(path.sep).join('/');
+        const commits = changeFrequency.get(filePath) || 0;
+        if (commits === 0) {
+            continue;
+        }
+
+        const hotspot = { path: filePath, commits, lines: file.lines, score: commits * file.lines };
+        files.push(hotspot);
+
+        let dir = path.posix.dirname(filePath);
+        while (dir !== '.' && dir !== '/') {
+            const stats = directories.get(dir) || { path: dir, fileCount: 0, commits: 0, lines: 0, score: 0 };
+            stats.fileCount++;
+            stats.commits += hotspot.commits;
+            stats.lines += hotspot.lines;
+            stats.score += hotspot.score;
+            directories.set(dir, stats);
+            dir = path.posix.dirname(dir);
+        }
+    }
+
+    return {
+        windowDays,
+        files: files.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path)).slice(0, limit),
+        directories: Array.from(directories.values())
+            .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+            .slice(0, limit)
+    };
+}
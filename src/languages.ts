@@ -0,0 +1,176 @@
+import * as path from 'path';
+
+export type LanguageCategory = 'programming' | 'markup' | 'data' | 'config' | 'prose' | 'other';
+
+export interface Language {
+    name: string;
+    category: LanguageCategory;
+    /** Lowercase, without the dot */
+    extensions: string[];
+    /** Exact file names, like `Dockerfile` */
+    filenames: string[];
+    /** Interpreters named by a shebang line, without their version suffix */
+    interpreters: string[];
+}
+
+/**
+ * The `gitStats.languages` setting: new languages, or additions to a
+ * built-in one of the same name. Its entries win over the built-in ones.
+ */
+export interface LanguageSettings {
+    [name: string]: {
+        category?: LanguageCategory;
+        extensions?: string[];
+        filenames?: string[];
+        interpreters?: string[];
+    };
+}
+
+function language(
+    name: string,
+    category: LanguageCategory,
+    extensions: string[],
+    filenames: string[] = [],
+    interpreters: string[] = []
+): Language {
+    return { name, category, extensions, filenames, interpreters };
+}
+
+const builtInLanguages: Language[] = [
+    language('C#', 'programming', ['cs', 'csx']),
+    language('C/C++', 'programming', ['c', 'h', 'cpp', 'cc', 'cxx', 'hpp', 'hh', 'hxx']),
+    language('Go', 'programming', ['go']),
+    language('Groovy', 'programming', ['groovy', 'gradle'], ['Jenkinsfile'], ['groovy']),
+    language('Java', 'programming', ['java']),
+    language('JavaScript', 'programming', ['js', 'jsx', 'mjs', 'cjs'], [], ['node', 'nodejs']),
+    language('Kotlin', 'programming', ['kt', 'kts']),
+    language('Lua', 'programming', ['lua'], [], ['lua']),
+    language('Makefile', 'programming', ['mk'], ['Makefile', 'makefile', 'GNUmakefile'], ['make']),
+    language('Perl', 'programming', ['pl', 'pm'], [], ['perl']),
+    language('PHP', 'programming', ['php'], [], ['php']),
+    language('PowerShell', 'programming', ['ps1', 'psm1', 'psd1'], [], ['pwsh', 'powershell']),
+    language('Python', 'programming', ['py', 'pyw'], [], ['python']),
+    language('R', 'programming', ['r'], [], ['Rscript']),
+    language('Ruby', 'programming', ['rb', 'rake', 'gemspec'], ['Rakefile', 'Gemfile', 'Vagrantfile'], ['ruby']),
+    language('Rust', 'programming', ['rs']),
+    language('Scala', 'programming', ['scala', 'sc'], [], ['scala']),
+    language('Shell', 'programming', ['sh', 'bash', 'zsh'], [], ['sh', 'bash', 'zsh', 'dash', 'ksh']),
+    language('SQL', 'programming', ['sql']),
+    language('Swift', 'programming', ['swift']),
+    language('TypeScript', 'programming', ['ts', 'tsx', 'mts', 'cts'], [], ['ts-node', 'deno']),
+    language('CSS', 'markup', ['css']),
+    language('HTML', 'markup', ['html', 'htm']),
+    language('Less', 'markup', ['less']),
+    language('Razor', 'markup', ['razor', 'cshtml']),
+    language('SCSS', 'markup', ['scss']),
+    language('JSON', 'data', ['json', 'jsonc']),
+    language('XML', 'data', ['xml', 'xsd', 'xsl']),
+    language('YAML', 'data', ['yaml', 'yml']),
+    language('Dockerfile', 'config', ['dockerfile'], ['Dockerfile', 'Containerfile']),
+    language('INI', 'config', ['ini', 'cfg']),
+    language('MSBuild', 'config', ['csproj', 'vbproj', 'fsproj', 'props', 'targets']),
+    language('Procfile', 'config', [], ['Procfile']),
+    language('TOML', 'config', ['toml']),
+    language('Visual Studio Solution', 'config', ['sln']),
+    language('Markdown', 'prose', ['md', 'markdown']),
+    language('Text', 'prose', ['txt'])
+];
+
+/**
+ * Interpreter named by a `#!` line, like `python` for `#!/usr/bin/env python3`
+ * or `bash` for `#!/bin/bash -e`. Null when the line is no shebang.
+ */
+export function parseShebang(firstLine: string): string | null {
+    if (!firstLine.startsWith('#!')) {
+        return null;
+    }
+
+    const words = firstLine.slice(2).trim().split(/\s+/);
+    let program = path.posix.basename(words[0] || '');
+    if (program === 'env') {
+        // Skip the options of env, like `-S`
+        program = words.slice(1).find(word => !word.startsWith('-') && !word.includes('=')) || '';
+    }
+    return program.replace(/[\d.]+$/, '') || null;
+}
+
+/**
+ * Maps files to named languages by file name, then extension, then the
+ * shebang line of extensionless scripts.
+ */
+export class LanguageRegistry {
+    public readonly languages: Language[];
+    private byExtension: Map<string, Language> = new Map();
+    private byFilename: Map<string, Language> = new Map();
+    private byInterpreter: Map<string, Language> = new Map();
+
+    constructor(settings: LanguageSettings = {}) {
+        const languages = builtInLanguages.map(builtIn => ({ ...builtIn }));
+        const custom: Language[] = [];
+
+        for (const [name, definition] of Object.entries(settings)) {
+            let entry = languages.find(candidate => candidate.name.toLowerCase() === name.toLowerCase());
+            if (!entry) {
+                entry = language(name, 'programming', []);
+                languages.push(entry);
+            }
+            entry.category = definition.category || entry.category;
+            entry.extensions = [...entry.extensions, ...(definition.extensions || []).map(normalizeExtension)];
+            entry.filenames = [...entry.filenames, ...(definition.filenames || [])];
+            entry.interpreters = [...entry.interpreters, ...(definition.interpreters || [])];
+            custom.push(entry);
+        }
+
+        this.languages = languages;
+        // Indexed last, so user definitions take over extensions claimed by a built-in language
+        for (const entry of [...languages, ...custom]) {
+            entry.extensions.forEach(extension => this.byExtension.set(extension, entry));
+            entry.filenames.forEach(filename => this.byFilename.set(filename, entry));
+            entry.interpreters.forEach(interpreter => this.byInterpreter.set(interpreter, entry));
+        }
+    }
+
+    /** Detects the language from the path alone; null when only the content could tell */
+    public detect(relativePath: string): Language | null {
+        const filename = path.basename(relativePath);
+        return this.byFilename.get(filename) || this.byExtension.get(getExtension(filename)) || null;
+    }
+
+    /** Detects the language of a script from its first line */
+    public detectShebang(firstLine: string): Language | null {
+        const interpreter = parseShebang(firstLine);
+        return interpreter ? this.detectInterpreter(interpreter) : null;
+    }
+
+    /** The language run by an interpreter found by `parseShebang` */
+    public detectInterpreter(interpreter: string): Language | null {
+        return this.byInterpreter.get(interpreter) || null;
+    }
+
+    /**
+     * Stand-in for files of no known language, named after their extension
+     * so they keep a group of their own in the language distribution.
+     */
+    public unknown(relativePath: string): Language {
+        const extension = getExtension(path.basename(relativePath));
+        return language(extension ? `.${extension}` : 'Other', 'other', extension ? [extension] : []);
+    }
+
+    /** Whether a list of language names and categories, like `["Python", "data"]`, selects the language */
+    public static matches(language: Language, selectors: string[]): boolean {
+        const name = language.name.toLowerCase();
+        return selectors.some(selector => {
+            const value = selector.toLowerCase();
+            return value === name || value === language.category;
+        });
+    }
+}
+
+/** Lowercase extension without the dot, empty for `Makefile` and dotfiles like `.bashrc` */
+export function getExtension(filename: string): string {
+    return path.extname(filename).toLowerCase().slice(1);
+}
+
+function normalizeExtension(extension: string): string {
+    return extension.toLowerCase().replace(/^\./, '');
+}
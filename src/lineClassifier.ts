@@ -0,0 +1,250 @@
+import * as path from 'path';
+import { Language } from './languages';
+
+export interface LineBreakdown {
+    lines: number;
+    code: number;
+    comment: number;
+    blank: number;
+}
+
+interface CommentSyntax {
+    lineComments: string[];
+    blockComments: Array<[string, string]>;
+    /** Block comments that may contain further block comments (Rust, Swift, Kotlin, Scala) */
+    nestedBlocks?: boolean;
+    /** Blocks that only count as comments when they open a line, e.g. Python docstrings */
+    docStrings?: Array<[string, string]>;
+    /** Quote characters of strings that end at the end of the line */
+    quotes: string[];
+    /** Delimiters of strings that may span several lines */
+    multiLineStrings?: Array<[string, string]>;
+}
+
+const cStyle: CommentSyntax = {
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    quotes: ['"', '\'']
+};
+
+const nestedCStyle: CommentSyntax = {
+    ...cStyle,
+    nestedBlocks: true,
+    multiLineStrings: [['"""', '"""']]
+};
+
+const hashStyle: CommentSyntax = {
+    lineComments: ['#'],
+    blockComments: [],
+    quotes: ['"', '\'']
+};
+
+const markupStyle: CommentSyntax = {
+    lineComments: [],
+    blockComments: [['<!--', '-->']],
+    quotes: []
+};
+
+const plainText: CommentSyntax = {
+    lineComments: [],
+    blockComments: [],
+    quotes: []
+};
+
+const syntaxByExtension: { [extension: string]: CommentSyntax } = {
+    c: cStyle,
+    h: cStyle,
+    cpp: cStyle,
+    hpp: cStyle,
+    java: cStyle,
+    cs: { ...cStyle, multiLineStrings: [['"""', '"""']] },
+    js: { ...cStyle, quotes: ['"', '\''], multiLineStrings: [['`', '`']] },
+    jsx: { ...cStyle, quotes: ['"', '\''], multiLineStrings: [['`', '`']] },
+    ts: { ...cStyle, quotes: ['"', '\''], multiLineStrings: [['`', '`']] },
+    tsx: { ...cStyle, quotes: ['"', '\''], multiLineStrings: [['`', '`']] },
+    go: { ...cStyle, multiLineStrings: [['`', '`']] },
+    rs: { ...nestedCStyle, quotes: ['"'], multiLineStrings: [] },
+    swift: nestedCStyle,
+    kt: nestedCStyle,
+    scala: nestedCStyle,
+    php: { ...cStyle, lineComments: ['//', '#'] },
+    css: { lineComments: [], blockComments: [['/*', '*/']], quotes: ['"', '\''] },
+    scss: cStyle,
+    sql: { lineComments: ['--'], blockComments: [['/*', '*/']], quotes: ['\''] },
+    py: {
+        ...hashStyle,
+        docStrings: [['"""', '"""'], ['\'\'\'', '\'\'\'']],
+        multiLineStrings: [['"""', '"""'], ['\'\'\'', '\'\'\'']]
+    },
+    rb: { ...hashStyle, docStrings: [['=begin', '=end']] },
+    r: hashStyle,
+    sh: hashStyle,
+    yaml: hashStyle,
+    yml: hashStyle,
+    sln: hashStyle,
+    ps1: { ...hashStyle, blockComments: [['<#', '#>']] },
+    psm1: { ...hashStyle, blockComments: [['<#', '#>']] },
+    psd1: { ...hashStyle, blockComments: [['<#', '#>']] },
+    html: markupStyle,
+    xml: markupStyle,
+    csproj: markupStyle,
+    md: markupStyle,
+    razor: { lineComments: [], blockComments: [['@*', '*@'], ['<!--', '-->']], quotes: [] },
+    json: { lineComments: [], blockComments: [], quotes: ['"'] },
+    txt: plainText
+};
+
+const syntaxByFilename = new Map<string, CommentSyntax>([
+    ['Dockerfile', hashStyle],
+    ['Makefile', hashStyle],
+    ['Rakefile', hashStyle],
+    ['Gemfile', hashStyle],
+    ['Vagrantfile', hashStyle],
+    ['Procfile', hashStyle],
+    ['Jenkinsfile', cStyle]
+]);
+
+/**
+ * Comment syntax by extension or file name, else that of the language's own
+ * extensions, so scripts recognized by their shebang are classified too.
+ */
+export function getCommentSyntax(filePath: string, language?: Language): CommentSyntax {
+    const filename = path.basename(filePath);
+    const extension = path.extname(filename).toLowerCase().slice(1);
+    const languageExtension = language?.extensions.find(candidate => syntaxByExtension[candidate]);
+    return syntaxByExtension[extension] || syntaxByFilename.get(filename)
+        || (languageExtension ? syntaxByExtension[languageExtension] : plainText);
+}
+
+/**
+ * Splits file content into code, comment and blank lines, cloc style.
+ *
+ * A line with any code counts as code, a line with only comment text counts
+ * as a comment, and a line with only whitespace counts as blank. Strings are
+ * skipped so comment markers inside them are not mistaken for comments.
+ */
+export function classifyLines(content: string, filePath: string, language?: Language): LineBreakdown {
+    const breakdown: LineBreakdown = { lines: 0, code: 0, comment: 0, blank: 0 };
+    if (content.length === 0) {
+        return breakdown;
+    }
+
+    const lines = content.split(/\r?\n/);
+    // If file ends with newline, last element will be empty
+    if (lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+
+    const syntax = getCommentSyntax(filePath, language);
+    // Stack of open block comment terminators (more than one only for nested blocks)
+    const openBlocks: string[] = [];
+    let openString: string | null = null;
+
+    for (const line of lines) {
+        breakdown.lines++;
+
+        if (line.trim().length === 0) {
+            breakdown.blank++;
+            continue;
+        }
+
+        let hasCode = false;
+        let hasComment = false;
+        let i = 0;
+
+        // Doc strings only count as comments when they open the line
+        if (openBlocks.length === 0 && !openString && syntax.docStrings) {
+            const trimmed = line.trimStart();
+            const docString = syntax.docStrings.find(([start]) => trimmed.startsWith(start));
+            if (docString) {
+                openBlocks.push(docString[1]);
+                hasComment = true;
+                i = line.length - trimmed.length + docString[0].length;
+            }
+        }
+
+        while (i < line.length) {
+            if (openBlocks.length > 0) {
+                hasComment = true;
+                const terminator = openBlocks[openBlocks.length - 1];
+                if (line.startsWith(terminator, i)) {
+                    openBlocks.pop();
+                    i += terminator.length;
+                    continue;
+                }
+                const nested = syntax.nestedBlocks && syntax.blockComments.find(([start]) => line.startsWith(start, i));
+                if (nested) {
+                    openBlocks.push(nested[1]);
+                    i += nested[0].length;
+                    continue;
+                }
+                i++;
+                continue;
+            }
+
+            if (openString) {
+                hasCode = true;
+                if (line[i] === '\\') {
+                    i += 2;
+                    continue;
+                }
+                if (line.startsWith(openString, i)) {
+                    i += openString.length;
+                    openString = null;
+                    continue;
+                }
+                i++;
+                continue;
+            }
+
+            const char = line[i];
+            if (char === ' ' || char === '\t') {
+                i++;
+                continue;
+            }
+
+            const lineComment = syntax.lineComments.find(marker => line.startsWith(marker, i) &&
+                // '#' only opens a comment at the start of a word, so `$#` or `${#x}` stay code
+                (marker !== '#' || i === 0 || /\s/.test(line[i - 1])));
+            if (lineComment) {
+                hasComment = true;
+                break;
+            }
+
+            const block = syntax.blockComments.find(([start]) => line.startsWith(start, i));
+            if (block) {
+                openBlocks.push(block[1]);
+                hasComment = true;
+                i += block[0].length;
+                continue;
+            }
+
+            hasCode = true;
+            const multiLine = syntax.multiLineStrings?.find(([start]) => line.startsWith(start, i));
+            if (multiLine) {
+                openString = multiLine[1];
+                i += multiLine[0].length;
+                continue;
+            }
+            if (syntax.quotes.includes(char)) {
+                openString = char;
+            }
+            i++;
+        }
+
+        // Single-line strings never continue on the next line
+        if (openString && syntax.quotes.includes(openString)) {
+            openString = null;
+        }
+
+        if (hasCode) {
+            breakdown.code++;
+        } else if (hasComment) {
+            breakdown.comment++;
+        } else {
+            breakdown.blank++;
+        }
+    }
+
+    return breakdown;
+}
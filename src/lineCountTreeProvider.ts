@@ -0,0 +1,99 @@
+import * as vscode from 'vscode';
+import { FolderStats } from './folderPipeline';
+import { LineCountResult } from './lineCounter';
+import { DirectoryNode, buildDirectoryTree, percentageOf } from './statsAggregator';
+
+interface LineCountTreeNode {
+    folder: vscode.WorkspaceFolder;
+    node: DirectoryNode;
+    /** Set for the node standing for a whole workspace folder */
+    isFolderRoot: boolean;
+}
+
+/**
+ * Explorer view listing the directory hierarchy of the counted files with
+ * recursive file and line counts. Rebuilt from the line count results every
+ * time the stats refresh.
+ */
+export class LineCountTreeProvider implements vscode.TreeDataProvider<LineCountTreeNode>, vscode.Disposable {
+    public static readonly viewId = 'gitStats.lineCountTree';
+
+    private readonly changeEmitter = new vscode.EventEmitter<LineCountTreeNode | undefined>();
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    private roots: LineCountTreeNode[] = [];
+    private totalLines = 0;
+    private results: LineCountResult[] = [];
+
+    public update(folderStats: FolderStats[]): void {
+        // Line count results are reused from the cache while nothing changed
+        const results = folderStats.map(stats => stats.lineCountResult);
+        if (results.length === this.results.length && results.every((result, i) => result === this.results[i])) {
+            return;
+        }
+        this.results = results;
+
+        this.totalLines = results.reduce((sum, result) => sum + result.totalLines, 0);
+        this.roots = folderStats.map(stats => {
+            const node = buildDirectoryTree(stats.lineCountResult);
+            node.name = stats.folder.name;
+            return { folder: stats.folder, node, isFolderRoot: true };
+        });
+        this.changeEmitter.fire(undefined);
+    }
+
+    public getChildren(element?: LineCountTreeNode): LineCountTreeNode[] {
+        if (element) {
+            return this.toTreeNodes(element.folder, element.node.children);
+        }
+
+        // A single folder shows its content directly
+        if (this.roots.length === 1) {
+            return this.toTreeNodes(this.roots[0].folder, this.roots[0].node.children);
+        }
+        return [...this.roots].sort((a, b) => b.node.lines - a.node.lines);
+    }
+
+    public getTreeItem(element: LineCountTreeNode): vscode.TreeItem {
+        const { folder, node } = element;
+        const uri = node.path ? vscode.Uri.joinPath(folder.uri, node.path) : folder.uri;
+        const percentage = percentageOf(node.lines, this.totalLines);
+
+        const item = new vscode.TreeItem(
+            node.name,
+            node.isFile
+                ? vscode.TreeItemCollapsibleState.None
+                : element.isFolderRoot ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+        );
+        item.id = `${folder.uri.toString()}#${node.path}`;
+        item.resourceUri = uri;
+        item.description = node.isFile
+            ? `${node.lines.toLocaleString()} lines · ${percentage.toFixed(1)}%`
+            : `${node.lines.toLocaleString()} lines · ${node.fileCount.toLocaleString()} files · ${percentage.toFixed(1)}%`;
+        item.tooltip = [
+            node.path || folder.name,
+            `Lines: ${node.lines.toLocaleString()} (${percentage.toFixed(1)}% of total)`,
+            `Code: ${node.code.toLocaleString()}, Comments: ${node.comment.toLocaleString()}, Blank: ${node.blank.toLocaleString()}`,
+            ...(node.isFile ? [] : [`Files: ${node.fileCount.toLocaleString()}`])
+        ].join('\n');
+
+        if (node.isFile) {
+            item.iconPath = vscode.ThemeIcon.File;
+            item.command = { command: 'vscode.open', title: 'Open File', arguments: [uri] };
+            item.contextValue = 'file';
+        } else {
+            item.iconPath = element.isFolderRoot ? new vscode.ThemeIcon('root-folder') : vscode.ThemeIcon.Folder;
+            item.contextValue = 'directory';
+        }
+
+        return item;
+    }
+
+    public dispose(): void {
+        this.changeEmitter.dispose();
+    }
+
+    private toTreeNodes(folder: vscode.WorkspaceFolder, nodes: DirectoryNode[]): LineCountTreeNode[] {
+        return nodes.map(node => ({ folder, node, isFolderRoot: false }));
+    }
+}
@@ -1,153 +1,352 @@
-import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import { promisify } from 'util';
-import { exec } from 'child_process';
+import { FileLineCache, FileCacheEntry } from './fileLineCache';
+import { LineBreakdown, classifyLines } from './lineClassifier';
+import { IgnoreMatcher, IgnoreRule, ignoreFileName, parseGlobPatterns, parseIgnoreFile } from './glob';
+import { CancellationToken, GitRunner, sharedGitRunner, throwIfCancelled } from './gitRunner';
+import { Settings } from './settings';
+import { Language, LanguageRegistry, LanguageSettings, getExtension, parseShebang } from './languages';
 
 const readFile = promisify(fs.readFile);
-const execAsync = promisify(exec);
+
+/** Blob content read by a single `git cat-file --batch` process when counting a ref */
+const maxBatchBytes = 8 * 1024 * 1024;
 
 export interface FileInfo {
     path: string;
     lines: number;
+    code: number;
+    comment: number;
+    blank: number;
     extension: string;
+    /** Name of the detected language, or `.ext` for extensions no language claims */
+    language: string;
+    category: string;
 }
 
 export interface LineCountResult {
     totalLines: number;
+    codeLines: number;
+    commentLines: number;
+    blankLines: number;
     fileCount: number;
     files: FileInfo[];
 }
 
 export class LineCounter {
     private includeExtensions: string[] = [];
+    private includeLanguages: string[] = [];
+    private excludeLanguages: string[] = [];
+    private languages: LanguageRegistry = new LanguageRegistry();
+    /** Languages of extensionless scripts, from their shebang line as of the last count */
+    private scriptLanguages: Map<string, Language> = new Map();
     private excludePatterns: string[] = [];
+    private ignoreFile: { content: string; prefix: string; rules: IgnoreRule[] } = { content: '', prefix: '', rules: [] };
+    private ignoreMatcher: IgnoreMatcher = new IgnoreMatcher([]);
+    private fileCache: FileLineCache | undefined;
+    private runner: GitRunner;
 
-    constructor() {
-        this.updateConfiguration();
+    constructor(settings: Settings, fileCache?: FileLineCache, runner: GitRunner = sharedGitRunner) {
+        this.fileCache = fileCache;
+        this.runner = runner;
+        this.updateConfiguration(settings);
     }
 
-    public updateConfiguration(): void {
-        const config = vscode.workspace.getConfiguration('gitStats');
-        this.includeExtensions = config.get<string[]>('includeExtensions', []);
-        this.excludePatterns = config.get<string[]>('excludePatterns', []);
+    public updateConfiguration(settings: Settings): void {
+        this.includeExtensions = settings.get<string[]>('includeExtensions', []);
+        this.includeLanguages = settings.get<string[]>('includeLanguages', []);
+        this.excludeLanguages = settings.get<string[]>('excludeLanguages', []);
+        this.languages = new LanguageRegistry(settings.get<LanguageSettings>('languages', {}));
+        this.excludePatterns = settings.get<string[]>('excludePatterns', []);
+        this.updateIgnoreMatcher();
     }
 
-    public async countLines(workspaceFolder: vscode.WorkspaceFolder): Promise<LineCountResult> {
-        const rootPath = workspaceFolder.uri.fsPath;
+    /**
+     * Counts the lines of every selected file in the folder. Throws a
+     * GitCancelledError when cancelled, leaving the file cache index untouched.
+     */
+    public async countLines(rootPath: string, token?: CancellationToken): Promise<LineCountResult> {
         const result: LineCountResult = {
             totalLines: 0,
+            codeLines: 0,
+            commentLines: 0,
+            blankLines: 0,
             fileCount: 0,
             files: []
         };
 
         console.log(`Git Stats: Starting line count in ${rootPath}`);
         
-        // Check if this is a git repository
-        const isGitRepo = await this.isGitRepository(rootPath);
-        
-        if (isGitRepo) {
+        await this.fileCache?.load(rootPath);
+
+        // Check if this is a git repository, possibly opened at a subdirectory
+        const repository = await this.getRepositoryLocation(rootPath, token);
+        throwIfCancelled(token);
+        await this.loadIgnoreFile(repository ? repository.topLevel : rootPath, repository ? repository.prefix : '');
+
+        // Extensionless files whose shebang was looked at, counted or not
+        const scripts = new Set<string>();
+        if (repository) {
             // Use git to get tracked and untracked (but not ignored) files
-            await this.countLinesUsingGit(rootPath, result);
+            await this.countLinesUsingGit(rootPath, result, scripts, token);
         } else {
             // Fall back to filesystem traversal for non-git directories
-            await this.countLinesUsingFilesystem(rootPath, result);
+            await this.countLinesUsingFilesystem(rootPath, result, scripts, token);
         }
+
+        // A partial count must neither be returned nor prune the file cache
+        throwIfCancelled(token);
+        for (const script of Array.from(this.scriptLanguages.keys())) {
+            if (!scripts.has(script)) {
+                this.scriptLanguages.delete(script);
+            }
+        }
+        await this.fileCache?.save(rootPath, new Set([...result.files.map(file => file.path), ...scripts]));
         
         console.log(`Git Stats: Counted ${result.fileCount} files, ${result.totalLines} lines`);
         return result;
     }
 
-    private async isGitRepository(rootPath: string): Promise<boolean> {
+    /**
+     * Counts the lines of the selected files as committed at `ref`, reading
+     * blobs from the repository instead of the working tree. Blobs already
+     * in the file cache are reused; the cache itself is left untouched.
+     */
+    public async countLinesAtRef(rootPath: string, ref: string, token?: CancellationToken): Promise<LineCountResult> {
+        const result: LineCountResult = {
+            totalLines: 0,
+            codeLines: 0,
+            commentLines: 0,
+            blankLines: 0,
+            fileCount: 0,
+            files: []
+        };
+
+        await this.fileCache?.load(rootPath);
+
+        const repository = await this.getRepositoryLocation(rootPath, token);
+        throwIfCancelled(token);
+        if (!repository) {
+            throw new Error(`${rootPath} is not in a git repository`);
+        }
+        await this.loadIgnoreFile(repository.topLevel, repository.prefix);
+
+        // Paths are relative to the folder, like the working tree count
+        const blobs: Array<{ file: string; objectId: string; size: number; script: boolean }> = [];
+        await this.runner.stream(rootPath, ['ls-tree', '-r', '--long', ref], line => {
+            const match = line.match(/^(\d+) (\w+) ([0-9a-f]+) +(\d+|-)\t(.+)$/);
+            if (!match) {
+                return;
+            }
+            const [, mode, type, objectId, size, file] = match;
+            // Skip gitlinks (submodules) and symbolic links
+            if (type !== 'blob' || mode === '120000') {
+                return;
+            }
+            // Extensionless files of no known name are decided by their shebang once read
+            const script = this.isScriptCandidate(file);
+            if (script || this.matchesFilters(file)) {
+                blobs.push({ file, objectId, size: parseInt(size) || 0, script });
+            }
+        }, { token });
+
+        // Blobs shared by several paths are counted once
+        const entries = new Map<string, FileCacheEntry>();
+        const pending = new Map<string, { file: string; size: number; script: boolean }>();
+        const scripts = new Map<string, Language | null>();
+        for (const blob of blobs) {
+            const key = FileLineCache.blobKey(blob.objectId);
+            const cached = blob.script ? undefined : this.fileCache?.get(rootPath, blob.file, key);
+            const language = this.getLanguage(blob.file);
+            const queued = pending.get(blob.objectId);
+            if (cached && (cached.binary || cached.language === language.name)) {
+                entries.set(blob.objectId, cached);
+            } else if (!blob.script && hasBinaryExtension(blob.file)) {
+                entries.set(blob.objectId, { key, binary: true, lines: 0, code: 0, comment: 0, blank: 0, language: language.name });
+            } else if (queued) {
+                queued.script = queued.script || blob.script;
+            } else {
+                pending.set(blob.objectId, { file: blob.file, size: blob.size, script: blob.script });
+            }
+        }
+
+        // Read the remaining blobs through `git cat-file --batch`, a bounded amount of content at a time
+        const objectIds = Array.from(pending.keys()).filter(objectId => !entries.has(objectId) || pending.get(objectId)?.script);
+        for (let start = 0; start < objectIds.length;) {
+            let end = start;
+            let batchSize = 0;
+            while (end < objectIds.length && (end === start || batchSize + (pending.get(objectIds[end])?.size ?? 0) <= maxBatchBytes)) {
+                batchSize += pending.get(objectIds[end++])?.size ?? 0;
+            }
+            const batch = objectIds.slice(start, end);
+            start = end;
+
+            const output = await this.runner.runRaw(rootPath, ['cat-file', '--batch'], { token, input: `${batch.join('\n')}\n` });
+            for (const [objectId, content] of parseBatchOutput(output)) {
+                const blob = pending.get(objectId);
+                const file = blob?.file ?? objectId;
+                const binary = isBinaryContent(content);
+                const text = binary ? '' : content.toString('utf8');
+                let language = this.getLanguage(file);
+                if (blob?.script) {
+                    const script = binary ? null : this.languages.detectShebang(getFirstLine(text));
+                    scripts.set(objectId, script);
+                    language = script || language;
+                }
+                const breakdown = binary ? { lines: 0, code: 0, comment: 0, blank: 0 } : classifyLines(text, file, language);
+                entries.set(objectId, { key: FileLineCache.blobKey(objectId), binary, ...breakdown, language: language.name });
+            }
+        }
+        throwIfCancelled(token);
+
+        for (const blob of blobs) {
+            const entry = entries.get(blob.objectId);
+            if (!entry || entry.binary) {
+                continue;
+            }
+            if (!blob.script) {
+                this.addFile(result, blob.file, entry, this.getLanguage(blob.file));
+                continue;
+            }
+            const script = scripts.get(blob.objectId) ?? null;
+            if (script && this.shouldIncludeFile(blob.file, script)) {
+                this.addFile(result, blob.file, entry, script);
+            }
+        }
+
+        console.log(`Git Stats: Counted ${result.fileCount} files, ${result.totalLines} lines at ${ref}`);
+        return result;
+    }
+
+    /**
+     * Top level of the working tree containing the folder and the folder's
+     * path below it (`packages/app/`, empty at the top level). Null outside a repository.
+     */
+    private async getRepositoryLocation(
+        rootPath: string,
+        token?: CancellationToken
+    ): Promise<{ topLevel: string; prefix: string } | null> {
         try {
-            await execAsync('git rev-parse --git-dir', { cwd: rootPath });
-            return true;
+            const output = await this.runner.run(rootPath, ['rev-parse', '--show-toplevel', '--show-prefix'], { token });
+            const [topLevel, prefix] = output.split('\n').map(line => line.trim());
+            return { topLevel: topLevel || rootPath, prefix: prefix || '' };
         } catch {
-            return false;
+            return null;
         }
     }
 
-    private async countLinesUsingGit(rootPath: string, result: LineCountResult): Promise<void> {
+    private async countLinesUsingGit(
+        rootPath: string,
+        result: LineCountResult,
+        scripts: Set<string>,
+        token?: CancellationToken
+    ): Promise<void> {
         try {
-            // Get all tracked files
-            const { stdout: trackedFiles } = await execAsync('git ls-files', {
-                cwd: rootPath,
-                maxBuffer: 1024 * 1024 * 10 // 10MB buffer
-            });
+            // Map tracked files to their index blob id; conflicted files (stage > 0) have no single blob
+            const blobIds = new Map<string, string | null>();
+            await this.runner.stream(rootPath, ['ls-files', '-s'], line => {
+                const match = line.match(/^(\d+) ([0-9a-f]+) (\d)\t(.+)$/);
+                if (!match) {
+                    return;
+                }
+                const [, mode, objectId, stage, file] = match;
+                // Skip gitlinks (submodules)
+                if (mode === '160000') {
+                    return;
+                }
+                blobIds.set(file, stage === '0' && !blobIds.has(file) ? objectId : null);
+            }, { token });
+
+            // Get tracked files whose working copy differs from the index
+            const modified = new Set<string>();
+            await this.runner.stream(rootPath, ['diff-files', '--name-only', '--relative'], file => {
+                if (file.trim()) {
+                    modified.add(file);
+                }
+            }, { token });
 
             // Get untracked files that are not ignored
-            const { stdout: untrackedFiles } = await execAsync('git ls-files --others --exclude-standard', {
-                cwd: rootPath,
-                maxBuffer: 1024 * 1024 * 10 // 10MB buffer
-            });
+            const untrackedFiles: string[] = [];
+            await this.runner.stream(rootPath, ['ls-files', '--others', '--exclude-standard'], file => {
+                if (file.trim()) {
+                    untrackedFiles.push(file);
+                }
+            }, { token });
 
             // Combine both lists
-            const allFiles = [
-                ...trackedFiles.split('\n').filter(f => f.trim()),
-                ...untrackedFiles.split('\n').filter(f => f.trim())
-            ];
-
-            // Get list of text (non-binary) files using git grep
-            // This will only return files that git considers as text
-            let textFiles = new Set<string>();
-            try {
-                const { stdout: textFilesList } = await execAsync('git grep -Il ""', {
-                    cwd: rootPath,
-                    maxBuffer: 1024 * 1024 * 10 // 10MB buffer
-                });
-                textFilesList.split('\n').filter(f => f.trim()).forEach(f => textFiles.add(f));
-            } catch {
-                // If git grep fails (e.g., no commits yet), check all files
-                textFiles = new Set(allFiles);
-            }
+            const allFiles = [...blobIds.keys(), ...untrackedFiles];
 
             // Count lines for each file
             for (const file of allFiles) {
                 if (!file) continue;
+                if (token?.isCancellationRequested) {
+                    return;
+                }
                 
-                // Check if file should be included based on extension
-                const filename = path.basename(file);
-                if (!this.shouldIncludeFile(filename)) {
+                // Check if file should be included based on language, extension and exclusions;
+                // extensionless files are decided by their shebang
+                const script = this.isScriptCandidate(file);
+                if (!script && !this.matchesFilters(file)) {
                     continue;
                 }
 
                 const fullPath = path.join(rootPath, file);
                 try {
-                    // Check if file is binary
-                    const isBinary = await this.isBinaryFile(fullPath, file, textFiles);
-                    if (isBinary) {
-                        console.log(`Git Stats: Skipping binary file ${file}`);
+                    // Unmodified tracked files are identified by their blob, everything else by mtime and size
+                    const objectId = blobIds.get(file);
+                    const key = objectId && !modified.has(file)
+                        ? FileLineCache.blobKey(objectId)
+                        : FileLineCache.statKey(await fs.promises.stat(fullPath));
+
+                    const interpreter = script ? await this.detectScript(rootPath, file, fullPath, key, scripts) : undefined;
+                    if (script && !this.shouldIncludeFile(file)) {
+                        continue;
+                    }
+
+                    const entry = await this.countFileLinesCached(rootPath, file, fullPath, key, interpreter);
+                    if (entry.binary) {
                         continue;
                     }
 
-                    const lines = await this.countFileLines(fullPath);
-                    const extension = path.extname(filename).toLowerCase().slice(1) || 'no-ext';
-                    result.totalLines += lines;
-                    result.fileCount++;
-                    result.files.push({
-                        path: file,
-                        lines: lines,
-                        extension: extension
-                    });
+                    this.addFile(result, file, entry, this.getLanguage(file));
                 } catch (error) {
                     // Skip files we can't read
                     console.log(`Git Stats: Could not read ${file}`);
                 }
             }
         } catch (error) {
+            if (token?.isCancellationRequested) {
+                return;
+            }
             console.error('Git Stats: Error using git commands, falling back to filesystem:', error);
             // Fall back to filesystem traversal if git commands fail
-            await this.countLinesUsingFilesystem(rootPath, result);
+            await this.countLinesUsingFilesystem(rootPath, result, scripts, token);
         }
     }
 
-    private async countLinesUsingFilesystem(rootPath: string, result: LineCountResult): Promise<void> {
+    private async countLinesUsingFilesystem(
+        rootPath: string,
+        result: LineCountResult,
+        scripts: Set<string>,
+        token?: CancellationToken
+    ): Promise<void> {
         // This is the fallback method for non-git directories
         // It uses the exclude patterns from configuration
-        await this.countLinesRecursive(rootPath, rootPath, result);
+        await this.countLinesRecursive(rootPath, rootPath, result, scripts, token);
     }
 
-    private async countLinesRecursive(rootPath: string, currentPath: string, result: LineCountResult): Promise<void> {
+    private async countLinesRecursive(
+        rootPath: string,
+        currentPath: string,
+        result: LineCountResult,
+        scripts: Set<string>,
+        token?: CancellationToken
+    ): Promise<void> {
+        if (token?.isCancellationRequested) {
+            return;
+        }
+
         try {
             const { readdir, stat } = fs.promises;
             const items = await readdir(currentPath);
@@ -156,36 +355,34 @@ export class LineCounter {
                 const fullPath = path.join(currentPath, item);
                 const relativePath = path.relative(rootPath, fullPath);
                 
+                const itemStat = await stat(fullPath);
+
                 // Check if path matches any exclude pattern
-                if (this.isExcluded(relativePath)) {
+                if (this.ignoreMatcher.isIgnored(relativePath, itemStat.isDirectory())) {
                     continue;
                 }
-
-                const itemStat = await stat(fullPath);
                 
                 if (itemStat.isDirectory()) {
                     // Skip .git directory
                     if (item === '.git') {
                         continue;
                     }
-                    await this.countLinesRecursive(rootPath, fullPath, result);
-                } else if (itemStat.isFile() && this.shouldIncludeFile(item)) {
-                    // Check if file is binary using basic heuristics
-                    const isBinary = await this.isBinaryFile(fullPath, relativePath, new Set());
-                    if (isBinary) {
-                        console.log(`Git Stats: Skipping binary file ${relativePath}`);
+                    await this.countLinesRecursive(rootPath, fullPath, result, scripts, token);
+                } else if (itemStat.isFile()) {
+                    const key = FileLineCache.statKey(itemStat);
+                    const interpreter = this.isScriptCandidate(relativePath)
+                        ? await this.detectScript(rootPath, relativePath, fullPath, key, scripts)
+                        : undefined;
+                    if (!this.shouldIncludeFile(relativePath)) {
                         continue;
                     }
 
-                    const lines = await this.countFileLines(fullPath);
-                    const extension = path.extname(item).toLowerCase().slice(1) || 'no-ext';
-                    result.totalLines += lines;
-                    result.fileCount++;
-                    result.files.push({
-                        path: relativePath,
-                        lines: lines,
-                        extension: extension
-                    });
+                    const entry = await this.countFileLinesCached(rootPath, relativePath, fullPath, key, interpreter);
+                    if (entry.binary) {
+                        continue;
+                    }
+
+                    this.addFile(result, relativePath, entry, this.getLanguage(relativePath));
                 }
             }
         } catch (error) {
@@ -193,137 +390,289 @@ export class LineCounter {
         }
     }
 
-    private isExcluded(relativePath: string): boolean {
-        const normalizedPath = relativePath.replace(/\\/g, '/');
-        
-        // Check against configured exclude patterns
-        for (const pattern of this.excludePatterns) {
-            // Convert glob pattern to regex
-            let regexPattern = pattern
-                .replace(/\\/g, '/')
-                .replace(/\./g, '\\.')
-                .replace(/\*\*/g, '__DOUBLESTAR__')
-                .replace(/\*/g, '[^/]*')
-                .replace(/__DOUBLESTAR__/g, '.*')
-                .replace(/\?/g, '.');
-            
-            // Handle patterns that end with /**
-            if (pattern.endsWith('/**')) {
-                regexPattern = regexPattern.slice(0, -2) + '(/.*)?';
-            }
-            
-            const regex = new RegExp('^' + regexPattern + '$');
-            const fullPathRegex = new RegExp(regexPattern);
-            
-            // Test against both the relative path and any substring match for ** patterns
-            if (regex.test(normalizedPath) || 
-                (pattern.includes('**/') && fullPathRegex.test(normalizedPath)) ||
-                (pattern.startsWith('**/') && normalizedPath.endsWith(pattern.substring(3))) ||
-                (pattern.includes('**/') && normalizedPath.includes(pattern.replace(/\*\*/g, '')))) {
-                return true;
-            }
+    /**
+     * Whether a repository-relative path passes the configured language,
+     * extension and exclude filters, so history and diff statistics line up
+     * with the line count.
+     */
+    public matchesFilters(relativePath: string): boolean {
+        return this.shouldIncludeFile(relativePath) && !this.isExcluded(relativePath);
+    }
+
+    /** The language of a path, from its name or, for scripts, the shebang seen by the last count */
+    public getLanguage(relativePath: string): Language {
+        return this.languages.detect(relativePath)
+            || this.scriptLanguages.get(relativePath)
+            || this.languages.unknown(relativePath);
+    }
+
+    private isScriptCandidate(relativePath: string): boolean {
+        return !getExtension(path.basename(relativePath))
+            && !this.languages.detect(relativePath)
+            && !this.isExcluded(relativePath);
+    }
+
+    /**
+     * Detects the language of an extensionless file from its shebang line.
+     * The interpreter is kept in the file cache entry, so the line is only
+     * read again once the file changes; the language is looked up every time,
+     * as the registry may have changed since.
+     */
+    private async detectScript(
+        rootPath: string,
+        relativePath: string,
+        fullPath: string,
+        key: string,
+        scripts: Set<string>
+    ): Promise<string | null> {
+        scripts.add(relativePath);
+        const cached = this.fileCache?.get(rootPath, relativePath, key);
+        let interpreter = cached?.interpreter;
+        if (interpreter === undefined) {
+            interpreter = parseShebang(await readFirstLine(fullPath));
+            // Files that turn out not to be counted keep an entry with no lines
+            this.fileCache?.set(rootPath, relativePath, cached
+                ? { ...cached, interpreter }
+                : { key, binary: false, lines: 0, code: 0, comment: 0, blank: 0, language: '', interpreter });
         }
-        
-        return false;
+
+        const language = interpreter ? this.languages.detectInterpreter(interpreter) : null;
+        if (language) {
+            this.scriptLanguages.set(relativePath, language);
+        } else {
+            this.scriptLanguages.delete(relativePath);
+        }
+        return interpreter;
     }
 
-    private shouldIncludeFile(filename: string): boolean {
-        const extension = path.extname(filename).toLowerCase().slice(1);
-        if (!extension) {
-            // Include files without extension if they match specific names
-            const specialFiles = ['Dockerfile', 'Makefile', 'Rakefile', 'Gemfile', 'Vagrantfile', 'Jenkinsfile', 'Procfile'];
-            return specialFiles.includes(filename);
+    private isExcluded(relativePath: string): boolean {
+        return this.ignoreMatcher.isIgnored(relativePath);
+    }
+
+    /**
+     * Reads the `.gitstatsignore` file at the top level of the repository,
+     * or of the folder outside git. Its rules apply after `excludePatterns`,
+     * so its negations can re-include files.
+     */
+    private async loadIgnoreFile(directory: string, prefix: string): Promise<void> {
+        let content = '';
+        try {
+            content = await readFile(path.join(directory, ignoreFileName), 'utf8');
+        } catch {
+            // No ignore file
+        }
+
+        if (content !== this.ignoreFile.content || prefix !== this.ignoreFile.prefix) {
+            this.ignoreFile = { content, prefix, rules: parseIgnoreFile(content, prefix) };
+            this.updateIgnoreMatcher();
         }
-        return this.includeExtensions.includes(extension);
     }
 
-    private async isBinaryFile(filePath: string, relativePath: string, textFiles: Set<string>): Promise<boolean> {
-        // If git already told us it's a text file, trust that
-        if (textFiles.size > 0 && textFiles.has(relativePath)) {
+    private updateIgnoreMatcher(): void {
+        this.ignoreMatcher = new IgnoreMatcher([...parseGlobPatterns(this.excludePatterns), ...this.ignoreFile.rules]);
+    }
+
+    /**
+     * Files count when their extension is in `includeExtensions` or their
+     * language is selected by `includeLanguages`, and their language is not
+     * excluded. Files without an extension count when their name or shebang
+     * identifies a language. `script` overrides the remembered shebang language.
+     */
+    private shouldIncludeFile(relativePath: string, script?: Language | null): boolean {
+        const language = this.languages.detect(relativePath)
+            || (script !== undefined ? script : this.scriptLanguages.get(relativePath))
+            || null;
+        if (language && LanguageRegistry.matches(language, this.excludeLanguages)) {
             return false;
         }
 
-        // Check common binary extensions
-        const binaryExtensions = [
-            '.exe', '.dll', '.so', '.dylib', '.a', '.lib', '.o', '.obj',
-            '.png', '.jpg', '.jpeg', '.gif', '.bmp', '.ico', '.svg', '.webp',
-            '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx',
-            '.zip', '.tar', '.gz', '.bz2', '.7z', '.rar', '.jar', '.war',
-            '.mp3', '.mp4', '.avi', '.mov', '.wmv', '.flv', '.webm', '.ogg',
-            '.ttf', '.otf', '.woff', '.woff2', '.eot',
-            '.pyc', '.pyo', '.class', '.dex',
-            '.db', '.sqlite', '.mdb'
-        ];
-        
-        const ext = path.extname(filePath).toLowerCase();
-        if (binaryExtensions.includes(ext)) {
-            return true;
+        const extension = getExtension(path.basename(relativePath));
+        if (!extension) {
+            return language !== null;
         }
+        return this.includeExtensions.includes(extension)
+            || (language !== null && LanguageRegistry.matches(language, this.includeLanguages));
+    }
 
-        // Read first few bytes to check for binary content
-        try {
-            const buffer = Buffer.alloc(8000);
-            const fd = await promisify(fs.open)(filePath, 'r');
-            const { bytesRead } = await promisify(fs.read)(fd, buffer, 0, 8000, 0);
-            await promisify(fs.close)(fd);
-
-            // Check for null bytes (common indicator of binary files)
-            for (let i = 0; i < bytesRead; i++) {
-                if (buffer[i] === 0) {
-                    return true;
-                }
-            }
+    private addFile(result: LineCountResult, relativePath: string, breakdown: LineBreakdown, language: Language): void {
+        const extension = path.extname(relativePath).toLowerCase().slice(1) || 'no-ext';
+        result.totalLines += breakdown.lines;
+        result.codeLines += breakdown.code;
+        result.commentLines += breakdown.comment;
+        result.blankLines += breakdown.blank;
+        result.fileCount++;
+        result.files.push({
+            path: relativePath,
+            lines: breakdown.lines,
+            code: breakdown.code,
+            comment: breakdown.comment,
+            blank: breakdown.blank,
+            extension: extension,
+            language: language.name,
+            category: language.category
+        });
+    }
 
-            // Check for high proportion of non-printable characters
-            let nonPrintable = 0;
-            for (let i = 0; i < bytesRead; i++) {
-                const byte = buffer[i];
-                // Count non-printable characters (excluding common whitespace)
-                if (byte < 32 && byte !== 9 && byte !== 10 && byte !== 13) {
-                    nonPrintable++;
-                }
-            }
+    private async countFileLinesCached(
+        rootPath: string,
+        relativePath: string,
+        fullPath: string,
+        key: string,
+        interpreter?: string | null
+    ): Promise<FileCacheEntry> {
+        // Breakdowns depend on the language, which settings or a new shebang can change
+        const language = this.getLanguage(relativePath);
+        const cached = this.fileCache?.get(rootPath, relativePath, key);
+        if (cached && (cached.binary || cached.language === language.name)) {
+            return cached;
+        }
 
-            // If more than 30% non-printable, consider it binary
-            return (nonPrintable / bytesRead) > 0.3;
-        } catch {
-            // If we can't read the file, assume it's not binary
-            return false;
+        // Check if file is binary using basic heuristics
+        const binary = await isBinaryFile(fullPath);
+        if (binary) {
+            console.log(`Git Stats: Skipping binary file ${relativePath}`);
         }
+
+        const breakdown = binary
+            ? { lines: 0, code: 0, comment: 0, blank: 0 }
+            : await this.countFileLines(fullPath, language);
+        const entry: FileCacheEntry = { key, binary, ...breakdown, language: language.name, interpreter };
+        this.fileCache?.set(rootPath, relativePath, entry);
+        return entry;
     }
 
-    private async countFileLines(filePath: string): Promise<number> {
+    private async countFileLines(filePath: string, language: Language): Promise<LineBreakdown> {
         try {
             const content = await readFile(filePath, 'utf-8');
-            if (content.length === 0) {
-                return 0;
-            }
-            
-            // Count logical lines for developers
-            // Split by newlines and count non-empty content
-            const lines = content.split(/\r?\n/);
-            
-            // If file ends with newline, last element will be empty
-            if (lines[lines.length - 1] === '') {
-                return lines.length - 1;
-            }
-            
-            // If file doesn't end with newline, count all lines
-            return lines.length;
+            // Count logical lines for developers, split into code, comments and blanks
+            return classifyLines(content, filePath, language);
         } catch (error) {
-            return 0;
+            return { lines: 0, code: 0, comment: 0, blank: 0 };
+        }
+    }
+}
+
+/** Short line count for the status bar and prompts, like `12.3K` */
+export function formatLineCount(lines: number): string {
+    if (lines >= 1000000) {
+        return `${(lines / 1000000).toFixed(1)}M`;
+    } else if (lines >= 10000) {
+        return `${(lines / 1000).toFixed(1)}K`;
+    } else if (lines >= 1000) {
+        return `${(lines / 1000).toFixed(2)}K`;
+    } else {
+        return lines.toString();
+    }
+}
+
+/**
+ * Splits `git cat-file --batch` output into the content of each object.
+ * Every object is a `<id> <type> <size>` header line, the content and a newline.
+ */
+function parseBatchOutput(output: Buffer): Map<string, Buffer> {
+    const objects = new Map<string, Buffer>();
+    let offset = 0;
+
+    while (offset < output.length) {
+        const headerEnd = output.indexOf(10, offset);
+        if (headerEnd === -1) {
+            break;
         }
+        const [objectId, type, size] = output.subarray(offset, headerEnd).toString('utf8').split(' ');
+        offset = headerEnd + 1;
+        // Unknown objects are reported as `<id> missing` without content
+        if (type === 'missing' || size === undefined) {
+            continue;
+        }
+        const length = parseInt(size) || 0;
+        objects.set(objectId, output.subarray(offset, offset + length));
+        offset += length + 1;
     }
 
-    public formatLineCount(lines: number): string {
-        if (lines >= 1000000) {
-            return `${(lines / 1000000).toFixed(1)}M`;
-        } else if (lines >= 10000) {
-            return `${(lines / 1000).toFixed(1)}K`;
-        } else if (lines >= 1000) {
-            return `${(lines / 1000).toFixed(2)}K`;
-        } else {
-            return lines.toString();
+    return objects;
+}
+
+/** Shebang lines are short; reading a few hundred bytes is enough */
+const shebangLength = 256;
+
+function getFirstLine(content: string): string {
+    const end = content.indexOf('\n');
+    return (end === -1 ? content : content.slice(0, end)).trim();
+}
+
+async function readFirstLine(filePath: string): Promise<string> {
+    try {
+        const handle = await fs.promises.open(filePath, 'r');
+        try {
+            const buffer = Buffer.alloc(shebangLength);
+            const { bytesRead } = await handle.read(buffer, 0, shebangLength, 0);
+            return getFirstLine(buffer.subarray(0, bytesRead).toString('utf8'));
+        } finally {
+            await handle.close();
+        }
+    } catch {
+        return '';
+    }
+}
+
+const binaryExtensions = [
+    '.exe', '.dll', '.so', '.dylib', '.a', '.lib', '.o', '.obj',
+    '.png', '.jpg', '.jpeg', '.gif', '.bmp', '.ico', '.svg', '.webp',
+    '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx',
+    '.zip', '.tar', '.gz', '.bz2', '.7z', '.rar', '.jar', '.war',
+    '.mp3', '.mp4', '.avi', '.mov', '.wmv', '.flv', '.webm', '.ogg',
+    '.ttf', '.otf', '.woff', '.woff2', '.eot',
+    '.pyc', '.pyo', '.class', '.dex',
+    '.db', '.sqlite', '.mdb'
+];
+
+/** Bytes of a file inspected by the binary content heuristic */
+const binarySniffLength = 8000;
+
+/** Detects binary files from their extension and the first bytes of their content */
+export async function isBinaryFile(filePath: string): Promise<boolean> {
+    if (hasBinaryExtension(filePath)) {
+        return true;
+    }
+
+    // Read first few bytes to check for binary content
+    try {
+        const buffer = Buffer.alloc(binarySniffLength);
+        const fd = await promisify(fs.open)(filePath, 'r');
+        const { bytesRead } = await promisify(fs.read)(fd, buffer, 0, binarySniffLength, 0);
+        await promisify(fs.close)(fd);
+        return isBinaryContent(buffer.subarray(0, bytesRead));
+    } catch {
+        // If we can't read the file, assume it's not binary
+        return false;
+    }
+}
+
+export function hasBinaryExtension(filePath: string): boolean {
+    return binaryExtensions.includes(path.extname(filePath).toLowerCase());
+}
+
+/** Looks for null bytes and control characters at the start of the content */
+export function isBinaryContent(content: Buffer): boolean {
+    const length = Math.min(content.length, binarySniffLength);
+
+    // Check for null bytes (common indicator of binary files)
+    for (let i = 0; i < length; i++) {
+        if (content[i] === 0) {
+            return true;
         }
     }
-}
\ No newline at end of file
+
+    // Check for high proportion of non-printable characters
+    let nonPrintable = 0;
+    for (let i = 0; i < length; i++) {
+        const byte = content[i];
+        // Count non-printable characters (excluding common whitespace)
+        if (byte < 32 && byte !== 9 && byte !== 10 && byte !== 13) {
+            nonPrintable++;
+        }
+    }
+
+    // If more than 30% non-printable, consider it binary
+    return (nonPrintable / length) > 0.3;
+}
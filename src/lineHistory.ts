@@ -0,0 +1,120 @@
+import { CommitNumstat } from './gitManager';
+
+export type TrendGranularity = 'commit' | 'day' | 'week' | 'month';
+
+export interface TrendPoint {
+    date: string;
+    commit: string;
+    totalLines: number;
+    additions: number;
+    deletions: number;
+    languages: { [language: string]: number };
+}
+
+export interface LineCountTrend {
+    granularity: TrendGranularity;
+    commitCount: number;
+    languages: string[];
+    points: TrendPoint[];
+}
+
+const maxTrendLanguages = 8;
+const otherLanguage = 'Other';
+
+/**
+ * Replays the numstat history of a branch into cumulative line totals.
+ *
+ * Only paths accepted by `isCounted` contribute, so the trend uses the same
+ * include and exclude rules as the status bar line count. `languageOf`
+ * names the language of a path for the per-language breakdown.
+ */
+export function buildLineCountTrend(
+    history: CommitNumstat[],
+    isCounted: (relativePath: string) => boolean,
+    languageOf: (relativePath: string) => string,
+    granularity: TrendGranularity
+): LineCountTrend {
+    const languageTotals = new Map<string, number>();
+    const points: TrendPoint[] = [];
+    let totalLines = 0;
+    let current: TrendPoint | null = null;
+    let currentKey: string | null = null;
+
+    // Order by commit date so rewritten history doesn't produce repeated periods
+    const commits = [...history].sort((a, b) => a.timestamp - b.timestamp);
+
+    for (const commit of commits) {
+        const date = new Date(commit.timestamp);
+        const periodKey = granularity === 'commit' ? commit.commit : getPeriodStart(date, granularity);
+
+        if (!current || currentKey !== periodKey) {
+            currentKey = periodKey;
+            current = {
+                date: granularity === 'commit' ? date.toISOString().slice(0, 16).replace('T', ' ') : periodKey,
+                commit: commit.commit,
+                totalLines,
+                additions: 0,
+                deletions: 0,
+                languages: {}
+            };
+            points.push(current);
+        }
+
+        for (const file of commit.files) {
+            if (!isCounted(file.path)) {
+                continue;
+            }
+            const language = languageOf(file.path);
+            languageTotals.set(language, (languageTotals.get(language) || 0) + file.additions - file.deletions);
+            current.additions += file.additions;
+            current.deletions += file.deletions;
+            totalLines += file.additions - file.deletions;
+        }
+
+        current.commit = commit.commit;
+        current.totalLines = totalLines;
+        current.languages = Object.fromEntries(languageTotals);
+    }
+
+    // Keep the largest languages at HEAD and fold the rest into "other"
+    const languages = Array.from(languageTotals.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, maxTrendLanguages)
+        .map(([language]) => language);
+    const shown = new Set(languages);
+
+    for (const point of points) {
+        const folded: { [language: string]: number } = {};
+        for (const [language, lines] of Object.entries(point.languages)) {
+            const key = shown.has(language) ? language : otherLanguage;
+            folded[key] = (folded[key] || 0) + lines;
+        }
+        point.languages = folded;
+    }
+
+    if (languageTotals.size > languages.length) {
+        languages.push(otherLanguage);
+    }
+
+    return {
+        granularity,
+        commitCount: history.length,
+        languages,
+        points
+    };
+}
+
+function getPeriodStart(date: Date, granularity: Exclude<TrendGranularity, 'commit'>): string {
+    switch (granularity) {
+        case 'day':
+            return date.toISOString().slice(0, 10);
+        case 'week': {
+            // Weeks start on Monday
+            const monday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+            monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7));
+            return monday.toISOString().slice(0, 10);
+        }
+        case 'month':
+            return date.toISOString().slice(0, 7);
+    }
+}
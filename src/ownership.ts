@@ -0,0 +1,139 @@
+import * as path from 'path';
+import { BlameAuthor } from './gitManager';
+import { percentageOf } from './statsAggregator';
+
+export interface AuthorShare {
+    author: string;
+    email: string;
+    lines: number;
+    percentage: number;
+}
+
+export interface FileOwnership {
+    path: string;
+    lines: number;
+    owners: AuthorShare[];
+}
+
+export interface DirectoryOwnership {
+    path: string;
+    lines: number;
+    fileCount: number;
+    owners: AuthorShare[];
+    /** Smallest number of authors owning more than half of the lines */
+    busFactor: number;
+    /** Set when a single author owns at least the configured share of the lines */
+    concentrated: boolean;
+}
+
+export interface OwnershipReport {
+    fileCount: number;
+    totalLines: number;
+    authors: Array<AuthorShare & { files: number }>;
+    files: FileOwnership[];
+    directories: DirectoryOwnership[];
+}
+
+/** Directories smaller than this are too small for a meaningful bus factor */
+const minDirectoryLines = 100;
+
+/**
+ * Aggregates surviving blame lines per author for every file and for every
+ * directory containing it, flagging directories owned mostly by one person.
+ */
+export function buildOwnershipReport(
+    blames: Map<string, BlameAuthor[]>,
+    concentrationThreshold: number
+): OwnershipReport {
+    const authorTotals = new Map<string, { author: string; email: string; lines: number; files: number }>();
+    const directories = new Map<string, { fileCount: number; authors: Map<string, BlameAuthor> }>();
+    const files: FileOwnership[] = [];
+    let totalLines = 0;
+
+    for (const [file, authors] of blames) {
+        const fileLines = authors.reduce((sum, author) => sum + author.lines, 0);
+        totalLines += fileLines;
+        files.push({ path: file, lines: fileLines, owners: toShares(authors, fileLines) });
+
+        for (const author of authors) {
+            const key = authorKey(author);
+            const total = authorTotals.get(key) || { author: author.author, email: author.email, lines: 0, files: 0 };
+            total.lines += author.lines;
+            total.files++;
+            authorTotals.set(key, total);
+        }
+
+        // Roll the file up into every enclosing directory
+        for (const dir of getAncestors(file)) {
+            const stats = directories.get(dir) || { fileCount: 0, authors: new Map<string, BlameAuthor>() };
+            stats.fileCount++;
+            for (const author of authors) {
+                const key = authorKey(author);
+                const entry = stats.authors.get(key) || { author: author.author, email: author.email, lines: 0 };
+                entry.lines += author.lines;
+                stats.authors.set(key, entry);
+            }
+            directories.set(dir, stats);
+        }
+    }
+
+    const directoryReports: DirectoryOwnership[] = Array.from(directories.entries())
+        .map(([dir, stats]) => {
+            const authors = Array.from(stats.authors.values());
+            const lines = authors.reduce((sum, author) => sum + author.lines, 0);
+            const owners = toShares(authors, lines);
+            return {
+                path: dir,
+                lines,
+                fileCount: stats.fileCount,
+                owners,
+                busFactor: computeBusFactor(owners),
+                concentrated: lines >= minDirectoryLines && owners.length > 0 && owners[0].percentage >= concentrationThreshold
+            };
+        })
+        .sort((a, b) => b.lines - a.lines);
+
+    return {
+        fileCount: files.length,
+        totalLines,
+        authors: Array.from(authorTotals.values())
+            .map(author => ({ ...author, percentage: percentageOf(author.lines, totalLines) }))
+            .sort((a, b) => b.lines - a.lines),
+        files: files.sort((a, b) => b.lines - a.lines),
+        directories: directoryReports
+    };
+}
+
+function toShares(authors: BlameAuthor[], totalLines: number): AuthorShare[] {
+    return authors
+        .map(author => ({ ...author, percentage: percentageOf(author.lines, totalLines) }))
+        .sort((a, b) => b.lines - a.lines);
+}
+
+function computeBusFactor(owners: AuthorShare[]): number {
+    let share = 0;
+    let count = 0;
+    for (const owner of owners) {
+        share += owner.percentage;
+        count++;
+        if (share > 50) {
+            break;
+        }
+    }
+    return count;
+}
+
+function getAncestors(file: string): string[] {
+    const ancestors: string[] = [];
+    let dir = path.posix.dirname(file);
+    while (dir !== '.' && dir !== '/') {
+        ancestors.push(dir);
+        dir = path.posix.dirname(dir);
+    }
+    ancestors.push('.');
+    return ancestors;
+}
+
+function authorKey(author: BlameAuthor): string {
+    return `${author.author} <${author.email}>`;
+}
@@ -0,0 +1,167 @@
+import * as path from 'path';
+import { AheadBehind, NumstatTotals, RangeNotation } from './gitManager';
+import { LineCountResult } from './lineCounter';
+
+export interface ComparedRef {
+    /** The ref as chosen, like `v1.4` or `origin/develop` */
+    ref: string;
+    commit: string;
+    lines: number;
+    code: number;
+    comment: number;
+    blank: number;
+    files: number;
+}
+
+export interface ComparedFile {
+    path: string;
+    additions: number;
+    deletions: number;
+    /** Counted lines at each ref; null when the file is missing there or binary */
+    linesFrom: number | null;
+    linesTo: number | null;
+}
+
+export interface ComparedGroup {
+    name: string;
+    /** Changed files of the group */
+    changedFiles: number;
+    additions: number;
+    deletions: number;
+    /** Counted lines of the whole group at each ref */
+    linesFrom: number;
+    linesTo: number;
+}
+
+export interface RefComparison {
+    from: ComparedRef;
+    to: ComparedRef;
+    notation: RangeNotation;
+    /** Null when the refs share no history */
+    mergeBase: string | null;
+    /** Commits of `to` missing from `from`, and the reverse */
+    commitsAhead: number;
+    commitsBehind: number;
+    additions: number;
+    deletions: number;
+    /** Added plus deleted lines of files left out by the line count filters */
+    excludedChurn: number;
+    /** Sorted by added plus deleted lines, largest first */
+    files: ComparedFile[];
+    languages: ComparedGroup[];
+    directories: ComparedGroup[];
+}
+
+export interface RefComparisonInput {
+    from: { ref: string; commit: string; lineCount: LineCountResult };
+    to: { ref: string; commit: string; lineCount: LineCountResult };
+    notation: RangeNotation;
+    mergeBase: string | null;
+    divergence: AheadBehind;
+    diff: NumstatTotals;
+    /** Names the language of changed paths that neither line count has */
+    languageOf: (relativePath: string) => string;
+}
+
+/**
+ * Combines the diff between two refs with the line counts at each of them
+ * into per-file, per-language and per-directory breakdowns.
+ * Groups unchanged between the refs are kept for their line totals.
+ */
+export function buildRefComparison(input: RefComparisonInput): RefComparison {
+    const linesFrom = linesByPath(input.from.lineCount);
+    const linesTo = linesByPath(input.to.lineCount);
+
+    // Counted files keep the language detected from their content at that ref
+    const languages = new Map<string, string>();
+    for (const file of [...input.from.lineCount.files, ...input.to.lineCount.files]) {
+        languages.set(toGitPath(file.path), file.language);
+    }
+    const languageOf = (filePath: string) => languages.get(filePath) ?? input.languageOf(filePath);
+
+    const files: ComparedFile[] = input.diff.files
+        .map(file => ({
+            path: file.path,
+            additions: file.additions,
+            deletions: file.deletions,
+            linesFrom: linesFrom.get(file.path) ?? null,
+            linesTo: linesTo.get(file.path) ?? null
+        }))
+        .sort((a, b) => (b.additions + b.deletions) - (a.additions + a.deletions) || a.path.localeCompare(b.path));
+
+    return {
+        from: summarize(input.from.ref, input.from.commit, input.from.lineCount),
+        to: summarize(input.to.ref, input.to.commit, input.to.lineCount),
+        notation: input.notation,
+        mergeBase: input.mergeBase,
+        commitsAhead: input.divergence.ahead,
+        commitsBehind: input.divergence.behind,
+        additions: input.diff.additions,
+        deletions: input.diff.deletions,
+        excludedChurn: input.diff.excludedChurn,
+        files,
+        languages: groupChanges(files, linesFrom, linesTo, languageOf),
+        directories: groupChanges(files, linesFrom, linesTo, topDirectoryOf)
+    };
+}
+
+function summarize(ref: string, commit: string, lineCount: LineCountResult): ComparedRef {
+    return {
+        ref,
+        commit,
+        lines: lineCount.totalLines,
+        code: lineCount.codeLines,
+        comment: lineCount.commentLines,
+        blank: lineCount.blankLines,
+        files: lineCount.fileCount
+    };
+}
+
+function linesByPath(lineCount: LineCountResult): Map<string, number> {
+    return new Map(lineCount.files.map(file => [toGitPath(file.path), file.lines]));
+}
+
+/** Git reports forward slashes, whatever the platform */
+function toGitPath(filePath: string): string {
+    return filePath.split(path.sep).join('/');
+}
+
+function groupChanges(
+    files: ComparedFile[],
+    linesFrom: Map<string, number>,
+    linesTo: Map<string, number>,
+    keyOf: (filePath: string) => string
+): ComparedGroup[] {
+    const groups = new Map<string, ComparedGroup>();
+    const groupOf = (filePath: string) => {
+        const name = keyOf(filePath);
+        let group = groups.get(name);
+        if (!group) {
+            group = { name, changedFiles: 0, additions: 0, deletions: 0, linesFrom: 0, linesTo: 0 };
+            groups.set(name, group);
+        }
+        return group;
+    };
+
+    for (const file of files) {
+        const group = groupOf(file.path);
+        group.changedFiles++;
+        group.additions += file.additions;
+        group.deletions += file.deletions;
+    }
+    linesFrom.forEach((lines, filePath) => {
+        groupOf(filePath).linesFrom += lines;
+    });
+    linesTo.forEach((lines, filePath) => {
+        groupOf(filePath).linesTo += lines;
+    });
+
+    return Array.from(groups.values()).sort((a, b) =>
+        (b.additions + b.deletions) - (a.additions + a.deletions) || b.linesTo - a.linesTo || a.name.localeCompare(b.name)
+    );
+}
+
+function topDirectoryOf(filePath: string): string {
+    const separator = filePath.indexOf('/');
+    return separator === -1 ? '.' : filePath.slice(0, separator);
+}
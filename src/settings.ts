@@ -0,0 +1,14 @@
+/**
+ * Reads `gitStats.*` settings without the `gitStats.` prefix. In the
+ * extension this is a `vscode.WorkspaceConfiguration`, so the counting and
+ * git components do not depend on `vscode` and also run in the CLI.
+ */
+export interface Settings {
+    get<T>(key: string, defaultValue: T): T;
+}
+
+/** Persistent key-value storage, a `vscode.Memento` in the extension */
+export interface StateStore {
+    get<T>(key: string, defaultValue: T): T;
+    update(key: string, value: unknown): PromiseLike<void>;
+}
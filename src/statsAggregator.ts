@@ -0,0 +1,346 @@
+import * as path from 'path';
+import { GitStats } from './gitManager';
+import { FileInfo, LineCountResult } from './lineCounter';
+
+export interface LineCountOverview {
+    totalLines: number;
+    codeLines: number;
+    commentLines: number;
+    blankLines: number;
+    fileCount: number;
+    averageLines: number;
+    medianLines: number;
+    stdDeviation: number;
+}
+
+export interface GroupStats {
+    name: string;
+    /** Language category, for groups of languages */
+    category?: string;
+    count: number;
+    lines: number;
+    code: number;
+    comment: number;
+    percentage: number;
+}
+
+export interface SizeBucket {
+    label: string;
+    min: number;
+    max: number;
+    count: number;
+    percentage: number;
+}
+
+export interface ChangeTotals {
+    branchAdditions: number;
+    branchDeletions: number;
+    workingAdditions: number;
+    workingDeletions: number;
+    untrackedLines: number;
+    /** Added plus deleted lines of files left out by the line count filters */
+    excludedChurn: number;
+}
+
+export interface DirectoryNode {
+    name: string;
+    /** Path relative to the workspace folder, with forward slashes */
+    path: string;
+    isFile: boolean;
+    fileCount: number;
+    lines: number;
+    code: number;
+    comment: number;
+    blank: number;
+    /** Sorted by line count, largest first */
+    children: DirectoryNode[];
+}
+
+export interface CombinedStats {
+    totalLines: number;
+    codeLines: number;
+    commentLines: number;
+    blankLines: number;
+    fileCount: number;
+    changes: ChangeTotals;
+    folders: GroupStats[];
+}
+
+export function computeOverview(result: LineCountResult): LineCountOverview {
+    const overview: LineCountOverview = {
+        totalLines: result.totalLines,
+        codeLines: result.codeLines,
+        commentLines: result.commentLines,
+        blankLines: result.blankLines,
+        fileCount: result.fileCount,
+        averageLines: 0,
+        medianLines: 0,
+        stdDeviation: 0
+    };
+
+    if (result.fileCount === 0) {
+        return overview;
+    }
+
+    overview.averageLines = Math.round(result.totalLines / result.fileCount);
+
+    const sortedFiles = [...result.files].sort((a, b) => a.lines - b.lines);
+    overview.medianLines = sortedFiles[Math.floor(sortedFiles.length / 2)].lines;
+
+    const mean = result.totalLines / result.fileCount;
+    const variance = result.files.reduce((acc, file) => acc + Math.pow(file.lines - mean, 2), 0) / result.fileCount;
+    overview.stdDeviation = Math.round(Math.sqrt(variance));
+
+    return overview;
+}
+
+export function getLargestFiles(result: LineCountResult, limit: number): FileInfo[] {
+    return [...result.files]
+        .sort((a, b) => b.lines - a.lines)
+        .slice(0, limit);
+}
+
+export function groupByLanguage(result: LineCountResult): GroupStats[] {
+    const categories = new Map(result.files.map(file => [file.language, file.category]));
+    return groupFiles(result, file => file.language).map(group => ({ ...group, category: categories.get(group.name) }));
+}
+
+export function groupByTopDirectory(result: LineCountResult): GroupStats[] {
+    return groupFiles(result, file => {
+        const dir = path.dirname(file.path);
+        return dir.split(/[\\/]/)[0] || '.';
+    });
+}
+
+/**
+ * Builds the full directory hierarchy of the counted files, with file and
+ * line counts summed recursively into every directory.
+ */
+export function buildDirectoryTree(result: LineCountResult): DirectoryNode {
+    const root = createDirectoryNode('', '', false);
+    const directories = new Map<string, DirectoryNode>([['', root]]);
+
+    for (const file of result.files) {
+        const segments = file.path.split(/[\\/]/).filter(segment => segment);
+        let parent = root;
+        addToNode(root, file);
+
+        for (let i = 0; i < segments.length - 1; i++) {
+            const dirPath = segments.slice(0, i + 1).join('/');
+            let dir = directories.get(dirPath);
+            if (!dir) {
+                dir = createDirectoryNode(segments[i], dirPath, false);
+                directories.set(dirPath, dir);
+                parent.children.push(dir);
+            }
+            addToNode(dir, file);
+            parent = dir;
+        }
+
+        const leaf = createDirectoryNode(segments[segments.length - 1], segments.join('/'), true);
+        addToNode(leaf, file);
+        parent.children.push(leaf);
+    }
+
+    sortDirectoryNode(root);
+    return root;
+}
+
+export function computeSizeBuckets(result: LineCountResult): SizeBucket[] {
+    const buckets: SizeBucket[] = [
+        { label: '1-50 lines', min: 1, max: 50, count: 0, percentage: 0 },
+        { label: '51-100 lines', min: 51, max: 100, count: 0, percentage: 0 },
+        { label: '101-200 lines', min: 101, max: 200, count: 0, percentage: 0 },
+        { label: '201-500 lines', min: 201, max: 500, count: 0, percentage: 0 },
+        { label: '501-1000 lines', min: 501, max: 1000, count: 0, percentage: 0 },
+        { label: '1000+ lines', min: 1001, max: Infinity, count: 0, percentage: 0 }
+    ];
+
+    result.files.forEach(file => {
+        const bucket = buckets.find(b => file.lines >= b.min && file.lines <= b.max);
+        if (bucket) {
+            bucket.count++;
+        }
+    });
+
+    buckets.forEach(bucket => {
+        bucket.percentage = percentageOf(bucket.count, result.fileCount);
+    });
+
+    return buckets;
+}
+
+/**
+ * Sums the change counters of several repositories. Repositories on a base
+ * branch have no branch changes of their own, but may carry the ones of
+ * submodules rolled up into them.
+ */
+export function sumChanges(gitStats: Array<GitStats | null>): ChangeTotals {
+    const totals: ChangeTotals = {
+        branchAdditions: 0,
+        branchDeletions: 0,
+        workingAdditions: 0,
+        workingDeletions: 0,
+        untrackedLines: 0,
+        excludedChurn: 0
+    };
+
+    for (const stats of gitStats) {
+        if (!stats) {
+            continue;
+        }
+        totals.branchAdditions += stats.branchAdditions;
+        totals.branchDeletions += stats.branchDeletions;
+        totals.excludedChurn += stats.excludedBranchChurn;
+        totals.workingAdditions += stats.workingAdditions;
+        totals.workingDeletions += stats.workingDeletions;
+        totals.untrackedLines += stats.untrackedLines;
+        totals.excludedChurn += stats.excludedWorkingChurn;
+    }
+
+    return totals;
+}
+
+/**
+ * Totals across the folders of a multi-root workspace, with one group per folder.
+ */
+export function combineFolders(
+    folders: Array<{ name: string; lineCountResult: LineCountResult; gitStats: GitStats | null }>
+): CombinedStats {
+    const totalLines = folders.reduce((sum, folder) => sum + folder.lineCountResult.totalLines, 0);
+
+    return {
+        totalLines,
+        codeLines: folders.reduce((sum, folder) => sum + folder.lineCountResult.codeLines, 0),
+        commentLines: folders.reduce((sum, folder) => sum + folder.lineCountResult.commentLines, 0),
+        blankLines: folders.reduce((sum, folder) => sum + folder.lineCountResult.blankLines, 0),
+        fileCount: folders.reduce((sum, folder) => sum + folder.lineCountResult.fileCount, 0),
+        changes: sumChanges(folders.map(folder => folder.gitStats)),
+        folders: folders.map(folder => ({
+            name: folder.name,
+            count: folder.lineCountResult.fileCount,
+            lines: folder.lineCountResult.totalLines,
+            code: folder.lineCountResult.codeLines,
+            comment: folder.lineCountResult.commentLines,
+            percentage: percentageOf(folder.lineCountResult.totalLines, totalLines)
+        }))
+    };
+}
+
+/**
+ * Adds the files of submodules to the line count of their parent folder,
+ * with paths prefixed by the submodule path. Paths are joined with `/` as
+ * git reports them, so both roll-ups key a file the same way on Windows.
+ */
+export function rollUpLineCounts(
+    result: LineCountResult,
+    submodules: Array<{ path: string; lineCountResult: LineCountResult }>
+): LineCountResult {
+    const rolledUp: LineCountResult = { ...result, files: [...result.files] };
+    for (const submodule of submodules) {
+        const sub = submodule.lineCountResult;
+        rolledUp.totalLines += sub.totalLines;
+        rolledUp.codeLines += sub.codeLines;
+        rolledUp.commentLines += sub.commentLines;
+        rolledUp.blankLines += sub.blankLines;
+        rolledUp.fileCount += sub.fileCount;
+        rolledUp.files.push(...sub.files.map(file => ({ ...file, path: `${submodule.path}/${file.path.split(path.sep).join('/')}` })));
+    }
+    return rolledUp;
+}
+
+/**
+ * Adds the working and branch changes of submodules to the statistics of
+ * their parent repository. Branch changes are kept even when the parent is on
+ * a base branch, where it has none of its own.
+ */
+export function rollUpGitStats(
+    gitStats: GitStats,
+    submodules: Array<{ path: string; gitStats: GitStats | null }>
+): GitStats {
+    const rolledUp: GitStats = { ...gitStats, files: [...gitStats.files], excludedFiles: [...gitStats.excludedFiles] };
+    for (const submodule of submodules) {
+        const sub = submodule.gitStats;
+        if (!sub) {
+            continue;
+        }
+        rolledUp.branchAdditions += sub.branchAdditions;
+        rolledUp.branchDeletions += sub.branchDeletions;
+        rolledUp.excludedBranchChurn += sub.excludedBranchChurn;
+        rolledUp.workingAdditions += sub.workingAdditions;
+        rolledUp.workingDeletions += sub.workingDeletions;
+        rolledUp.untrackedLines += sub.untrackedLines;
+        rolledUp.excludedWorkingChurn += sub.excludedWorkingChurn;
+        rolledUp.files.push(...sub.files.map(file => ({ ...file, path: `${submodule.path}/${file.path}` })));
+        rolledUp.excludedFiles.push(...sub.excludedFiles.map(file => ({ ...file, path: `${submodule.path}/${file.path}` })));
+    }
+    return rolledUp;
+}
+
+export function percentageOf(value: number, total: number): number {
+    return total > 0 ? (value / total) * 100 : 0;
+}
+
+export function getTimeAgo(date: Date): string {
+    const seconds = Math.floor((Date.now() - date.getTime()) / 1000);
+
+    if (seconds < 60) {
+        return `${seconds} seconds ago`;
+    }
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) {
+        return `${minutes} minute${minutes > 1 ? 's' : ''} ago`;
+    }
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) {
+        return `${hours} hour${hours > 1 ? 's' : ''} ago`;
+    }
+    const days = Math.floor(hours / 24);
+    if (days < 30) {
+        return `${days} day${days > 1 ? 's' : ''} ago`;
+    }
+    const months = Math.floor(days / 30);
+    if (months < 12) {
+        return `${months} month${months > 1 ? 's' : ''} ago`;
+    }
+    const years = Math.floor(months / 12);
+    return `${years} year${years > 1 ? 's' : ''} ago`;
+}
+
+function createDirectoryNode(name: string, nodePath: string, isFile: boolean): DirectoryNode {
+    return { name, path: nodePath, isFile, fileCount: 0, lines: 0, code: 0, comment: 0, blank: 0, children: [] };
+}
+
+function addToNode(node: DirectoryNode, file: FileInfo): void {
+    node.fileCount++;
+    node.lines += file.lines;
+    node.code += file.code;
+    node.comment += file.comment;
+    node.blank += file.blank;
+}
+
+function sortDirectoryNode(node: DirectoryNode): void {
+    node.children.sort((a, b) => b.lines - a.lines || a.name.localeCompare(b.name));
+    node.children.forEach(sortDirectoryNode);
+}
+
+function groupFiles(result: LineCountResult, keyOf: (file: FileInfo) => string): GroupStats[] {
+    const groups = new Map<string, { count: number; lines: number; code: number; comment: number }>();
+    result.files.forEach(file => {
+        const key = keyOf(file);
+        const stats = groups.get(key) || { count: 0, lines: 0, code: 0, comment: 0 };
+        stats.count++;
+        stats.lines += file.lines;
+        stats.code += file.code;
+        stats.comment += file.comment;
+        groups.set(key, stats);
+    });
+
+    return Array.from(groups.entries())
+        .map(([name, stats]) => ({
+            name,
+            ...stats,
+            percentage: percentageOf(stats.lines, result.totalLines)
+        }))
+        .sort((a, b) => b.lines - a.lines);
+}
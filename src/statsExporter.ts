@@ -0,0 +1,284 @@
+import { GitStats } from './gitManager';
+import { FileInfo } from './lineCounter';
+import { FolderReport } from './folderPipeline';
+import { HotspotReport } from './hotspots';
+import {
+    CombinedStats,
+    GroupStats,
+    LineCountOverview,
+    combineFolders,
+    computeOverview,
+    computeSizeBuckets,
+    getLargestFiles,
+    groupByLanguage,
+    groupByTopDirectory
+} from './statsAggregator';
+
+export type ExportFormat = 'json' | 'csv' | 'markdown';
+
+/**
+ * Shape of the JSON export, documented in `schemas/export.schema.json`.
+ * Bump `schemaVersion` on any incompatible change.
+ */
+export interface StatsExport {
+    schemaVersion: number;
+    generatedAt: string;
+    folders: FolderExport[];
+    combined: CombinedStats | null;
+}
+
+export interface FolderExport {
+    name: string;
+    path: string;
+    git: GitStats | null;
+    repository: {
+        firstCommitDate: string | null;
+        totalCommits: number;
+        contributors: number;
+    };
+    lineCount: LineCountOverview;
+    languages: GroupStats[];
+    directories: GroupStats[];
+    sizeBuckets: Array<{ label: string; min: number; max: number | null; count: number; percentage: number }>;
+    files: FileInfo[];
+    hotspots: HotspotReport;
+    submodules: SubmoduleExport[];
+    /** Whether the submodules are part of `lineCount`, `files` and `git` above */
+    submodulesInTotals: boolean;
+}
+
+export interface SubmoduleExport {
+    path: string;
+    git: GitStats | null;
+    lineCount: LineCountOverview;
+}
+
+export const exportSchemaVersion = 2;
+
+export const exportFileExtensions: { [format in ExportFormat]: string } = {
+    json: 'json',
+    csv: 'csv',
+    markdown: 'md'
+};
+
+export function buildExport(reports: FolderReport[]): StatsExport {
+    return {
+        schemaVersion: exportSchemaVersion,
+        generatedAt: new Date().toISOString(),
+        folders: reports.map(report => buildFolderExport(report)),
+        combined: reports.length > 1
+            ? combineFolders(reports.map(report => ({ ...report, name: report.folder.name })))
+            : null
+    };
+}
+
+export function formatExport(data: StatsExport, format: ExportFormat): string {
+    switch (format) {
+        case 'json':
+            return JSON.stringify(data, null, 2);
+        case 'csv':
+            return toCsv(data);
+        case 'markdown':
+            return toMarkdown(data);
+    }
+}
+
+function buildFolderExport(report: FolderReport): FolderExport {
+    const { lineCountResult, repoAge } = report;
+
+    return {
+        name: report.folder.name,
+        path: report.folder.uri.fsPath,
+        git: report.gitStats,
+        repository: {
+            firstCommitDate: repoAge.firstCommitDate ? repoAge.firstCommitDate.toISOString() : null,
+            totalCommits: repoAge.totalCommits,
+            contributors: repoAge.contributors
+        },
+        lineCount: computeOverview(lineCountResult),
+        languages: groupByLanguage(lineCountResult),
+        directories: groupByTopDirectory(lineCountResult),
+        // JSON has no Infinity, the open-ended bucket gets a null maximum
+        sizeBuckets: computeSizeBuckets(lineCountResult).map(bucket => ({
+            ...bucket,
+            max: isFinite(bucket.max) ? bucket.max : null
+        })),
+        files: lineCountResult.files,
+        hotspots: report.hotspots,
+        submodules: report.submodules.map(submodule => ({
+            path: submodule.path,
+            git: submodule.gitStats,
+            lineCount: computeOverview(submodule.lineCountResult)
+        })),
+        submodulesInTotals: report.submodulesInTotals
+    };
+}
+
+/**
+ * One row per counted file, so the export can be pivoted in a spreadsheet.
+ */
+function toCsv(data: StatsExport): string {
+    const rows: Array<Array<string | number>> = [
+        ['folder', 'path', 'extension', 'language', 'lines', 'code', 'comment', 'blank']
+    ];
+
+    for (const folder of data.folders) {
+        for (const file of folder.files) {
+            rows.push([folder.name, file.path, file.extension, file.language, file.lines, file.code, file.comment, file.blank]);
+        }
+    }
+
+    return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+function csvField(value: string | number): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toMarkdown(data: StatsExport): string {
+    const lines: string[] = [
+        '# Git Repository Statistics',
+        '',
+        `_Generated ${data.generatedAt}_`,
+        ''
+    ];
+
+    if (data.combined) {
+        const combined = data.combined;
+        lines.push(
+            '## All Workspace Folders',
+            '',
+            `- Total lines: ${combined.totalLines.toLocaleString()} (code ${combined.codeLines.toLocaleString()}, comments ${combined.commentLines.toLocaleString()}, blank ${combined.blankLines.toLocaleString()})`,
+            `- Total files: ${combined.fileCount.toLocaleString()}`,
+            `- Branch changes: +${combined.changes.branchAdditions.toLocaleString()}/-${combined.changes.branchDeletions.toLocaleString()}`,
+            `- Uncommitted changes: +${combined.changes.workingAdditions.toLocaleString()}/-${combined.changes.workingDeletions.toLocaleString()} (untracked: ${combined.changes.untrackedLines.toLocaleString()})`,
+            `- Excluded churn: ${combined.changes.excludedChurn.toLocaleString()} lines in files left out by the filters`,
+            '',
+            ...groupTable('Folder', combined.folders),
+            ''
+        );
+    }
+
+    for (const folder of data.folders) {
+        const overview = folder.lineCount;
+        lines.push(`## ${escapeMarkdown(folder.name)}`, '');
+
+        lines.push('### Repository Information', '');
+        if (folder.git) {
+            lines.push(`- Current branch: \`${folder.git.branch}\``, `- Is main branch: ${folder.git.isMainBranch ? 'Yes' : 'No'}`);
+            if (folder.git.comparisonBase) {
+                lines.push(
+                    `- Compared against: \`${folder.git.comparisonBase}\` (${folder.git.commitsAhead} ahead, ${folder.git.commitsBehind} behind)`
+                );
+            }
+            if (folder.git.upstream) {
+                lines.push(
+                    `- Upstream: \`${folder.git.upstream}\` (${folder.git.upstreamAhead} ahead, ${folder.git.upstreamBehind} behind)`
+                );
+            }
+        }
+        if (folder.repository.firstCommitDate) {
+            lines.push(
+                `- First commit: ${folder.repository.firstCommitDate.slice(0, 10)}`,
+                `- Total commits: ${folder.repository.totalCommits.toLocaleString()}`,
+                `- Contributors: ${folder.repository.contributors.toLocaleString()}`
+            );
+        }
+        lines.push('');
+
+        lines.push(
+            '### Overall Statistics',
+            '',
+            '| Metric | Value |',
+            '| --- | ---: |',
+            `| Total lines | ${overview.totalLines.toLocaleString()} |`,
+            `| Code lines | ${overview.codeLines.toLocaleString()} |`,
+            `| Comment lines | ${overview.commentLines.toLocaleString()} |`,
+            `| Blank lines | ${overview.blankLines.toLocaleString()} |`,
+            `| Total files | ${overview.fileCount.toLocaleString()} |`,
+            `| Average lines/file | ${overview.averageLines.toLocaleString()} |`,
+            `| Median lines/file | ${overview.medianLines.toLocaleString()} |`,
+            `| Std deviation | ${overview.stdDeviation.toLocaleString()} |`,
+            ''
+        );
+
+        lines.push('### Top 20 Largest Files', '', '| File | Lines | Code |', '| --- | ---: | ---: |');
+        const lineCountResult = { ...overview, files: folder.files };
+        for (const file of getLargestFiles(lineCountResult, 20)) {
+            lines.push(`| ${escapeMarkdown(file.path)} | ${file.lines.toLocaleString()} | ${file.code.toLocaleString()} |`);
+        }
+        lines.push('');
+
+        lines.push(`### Hotspots (last ${folder.hotspots.windowDays} days)`, '');
+        if (folder.hotspots.files.length > 0) {
+            lines.push('| File | Commits | Lines | Score |', '| --- | ---: | ---: | ---: |');
+            for (const hotspot of folder.hotspots.files.slice(0, 20)) {
+                lines.push(`| ${escapeMarkdown(hotspot.path)} | ${hotspot.commits.toLocaleString()} | ${hotspot.lines.toLocaleString()} | ${hotspot.score.toLocaleString()} |`);
+            }
+            lines.push('', '| Directory | Files | File changes | Lines | Score |', '| --- | ---: | ---: | ---: | ---: |');
+            for (const dir of folder.hotspots.directories.slice(0, 10)) {
+                lines.push(`| ${escapeMarkdown(dir.path)} | ${dir.fileCount.toLocaleString()} | ${dir.commits.toLocaleString()} | ${dir.lines.toLocaleString()} | ${dir.score.toLocaleString()} |`);
+            }
+        } else {
+            lines.push('No counted file changed in this period.');
+        }
+        lines.push('');
+
+        lines.push('### Language Distribution', '', ...groupTable('Language', folder.languages.slice(0, 15)), '');
+        lines.push('### Top Directories by Line Count', '', ...groupTable('Directory', folder.directories.slice(0, 10)), '');
+
+        lines.push('### File Size Distribution', '', '| Size | Files | % |', '| --- | ---: | ---: |');
+        for (const bucket of folder.sizeBuckets) {
+            lines.push(`| ${bucket.label} | ${bucket.count.toLocaleString()} | ${bucket.percentage.toFixed(1)}% |`);
+        }
+        lines.push('');
+
+        if (folder.git) {
+            const git = folder.git;
+            lines.push(
+                '### Git Working Directory Status',
+                '',
+                `- Branch changes: +${git.branchAdditions.toLocaleString()}/-${git.branchDeletions.toLocaleString()}`,
+                `- Staged/unstaged changes: +${git.workingAdditions.toLocaleString()}/-${git.workingDeletions.toLocaleString()}`,
+                `- Untracked lines: ${git.untrackedLines.toLocaleString()}`,
+                `- Excluded churn: ${git.excludedBranchChurn.toLocaleString()} branch, ${git.excludedWorkingChurn.toLocaleString()} uncommitted lines in files left out by the filters`,
+                ''
+            );
+        }
+
+        if (folder.submodules.length > 0) {
+            lines.push(
+                '### Submodules',
+                '',
+                folder.submodulesInTotals ? 'Included in the totals above.' : 'Not included in the totals above.',
+                '',
+                '| Submodule | Branch | Files | Lines | Branch changes | Uncommitted |',
+                '| --- | --- | ---: | ---: | ---: | ---: |'
+            );
+            for (const submodule of folder.submodules) {
+                const git = submodule.git;
+                const branchChanges = git && !git.isMainBranch ? `+${git.branchAdditions.toLocaleString()}/-${git.branchDeletions.toLocaleString()}` : '';
+                const uncommitted = git ? `+${(git.workingAdditions + git.untrackedLines).toLocaleString()}/-${git.workingDeletions.toLocaleString()}` : '';
+                lines.push(`| ${escapeMarkdown(submodule.path)} | ${escapeMarkdown(git?.branch ?? '')} | ${submodule.lineCount.fileCount.toLocaleString()} | ${submodule.lineCount.totalLines.toLocaleString()} | ${branchChanges} | ${uncommitted} |`);
+            }
+            lines.push('');
+        }
+    }
+
+    return lines.join('\n');
+}
+
+function groupTable(label: string, groups: GroupStats[]): string[] {
+    return [
+        `| ${label} | Files | Lines | Code | % |`,
+        '| --- | ---: | ---: | ---: | ---: |',
+        ...groups.map(group =>
+            `| ${escapeMarkdown(group.name)} | ${group.count.toLocaleString()} | ${group.lines.toLocaleString()} | ${group.code.toLocaleString()} | ${group.percentage.toFixed(1)}% |`
+        )
+    ];
+}
+
+function escapeMarkdown(text: string): string {
+    return text.replace(/([\\|*_`[\]])/g, '\\$1');
+}
@@ -1,90 +1,303 @@
 import * as vscode from 'vscode';
-import { GitStats } from './gitManager';
-import { LineCounter } from './lineCounter';
+import * as path from 'path';
+import { FolderStats, SubmoduleStats } from './folderPipeline';
+import { getTimeAgo, sumChanges } from './statsAggregator';
+import { formatLineCount } from './lineCounter';
+import { LineCountMode, TemplateValues, buildTemplateValues, renderTemplate } from './statusBarTemplate';
+import { describeBudget, evaluateChangeBudgets, worstBudgetLevel } from './changeBudget';
 
 export class StatusBarManager {
     private statusBarItem: vscode.StatusBarItem;
-    private lineCounter: LineCounter;
     private showBranchStats: boolean = true;
     private showWorkingChanges: boolean = true;
+    private lineCountMode: LineCountMode = 'total';
+    private showAheadBehind: boolean = true;
+    private behindWarningThreshold: number = 20;
+    private showFetchAge: boolean = true;
+    private statusBarFormat: string = '';
+    private tooltipFormat: string = '';
+    private alignment: vscode.StatusBarAlignment = vscode.StatusBarAlignment.Left;
+    private priority: number = 100;
+    private visible: boolean = false;
+    private lastFolderStats: FolderStats[] | undefined;
+    private fetchAgeTimer: NodeJS.Timer;
 
-    constructor(lineCounter: LineCounter) {
-        this.lineCounter = lineCounter;
-        this.statusBarItem = vscode.window.createStatusBarItem(
-            vscode.StatusBarAlignment.Left,
-            100
-        );
-        this.statusBarItem.command = 'gitStats.showDetails';
-        this.updateConfiguration();
+    constructor() {
+        this.readConfiguration();
+        this.statusBarItem = this.createStatusBarItem();
+
+        // The fetch age keeps growing between refreshes
+        this.fetchAgeTimer = setInterval(() => {
+            if (this.lastFolderStats) {
+                this.update(this.lastFolderStats);
+            }
+        }, 60 * 1000);
     }
 
     public updateConfiguration(): void {
-        const config = vscode.workspace.getConfiguration('gitStats');
-        this.showBranchStats = config.get<boolean>('showBranchStats', true);
-        this.showWorkingChanges = config.get<boolean>('showWorkingChanges', true);
+        const alignment = this.alignment;
+        const priority = this.priority;
+        this.readConfiguration();
+
+        // Alignment and priority are fixed when an item is created
+        if (alignment !== this.alignment || priority !== this.priority) {
+            this.statusBarItem.dispose();
+            this.statusBarItem = this.createStatusBarItem();
+            if (this.visible) {
+                this.statusBarItem.show();
+            }
+        }
+
+        if (this.lastFolderStats) {
+            this.update(this.lastFolderStats);
+        }
     }
 
-    public update(gitStats: GitStats | null, totalLines: number): void {
-        if (!gitStats) {
-            // Not a git repository
-            this.statusBarItem.text = `$(file-text) ${this.lineCounter.formatLineCount(totalLines)} lines`;
-            this.statusBarItem.tooltip = `Total lines: ${totalLines.toLocaleString()}`;
+    public update(folderStats: FolderStats[]): void {
+        this.lastFolderStats = folderStats;
+        const gitFolders = folderStats.filter(stats => stats.gitStats !== null);
+        const values = this.getTemplateValues(folderStats);
+        const format = this.statusBarFormat || this.getDefaultFormat(gitFolders.length > 0);
+        this.statusBarItem.text = renderTemplate(format, values).trim();
+
+        const farBehind = gitFolders.filter(
+            stats => stats.gitStats && stats.gitStats.commitsBehind >= this.behindWarningThreshold
+        );
+        const budgetLevel = worstBudgetLevel(
+            gitFolders.flatMap(stats => evaluateChangeBudgets(vscode.workspace.getConfiguration('gitStats', stats.folder.uri), stats.gitStats))
+        );
+        if (budgetLevel === 'error') {
+            this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+        } else if (budgetLevel === 'warning' || (this.showAheadBehind && farBehind.length > 0)) {
+            this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
         } else {
-            const parts: string[] = [];
-            
-            // Line count
-            const formattedLines = this.lineCounter.formatLineCount(totalLines);
-            parts.push(`$(file-text) ${formattedLines}`);
-            
-            // Branch statistics (committed changes since branching)
-            if (this.showBranchStats && !gitStats.isMainBranch && 
-                (gitStats.branchAdditions > 0 || gitStats.branchDeletions > 0)) {
-                parts.push(`(branch: +${gitStats.branchAdditions}/-${gitStats.branchDeletions})`);
+            this.statusBarItem.backgroundColor = undefined;
+        }
+
+        this.statusBarItem.tooltip = this.tooltipFormat
+            ? renderTemplate(this.tooltipFormat, values)
+            : this.formatTooltip(folderStats, gitFolders, farBehind);
+    }
+
+    /**
+     * Layout used when `gitStats.statusBarFormat` is empty, honouring the
+     * individual `show*` settings.
+     */
+    private getDefaultFormat(isRepository: boolean): string {
+        if (!isRepository) {
+            return '${lineIcon} ${lines} lines';
+        }
+
+        let format = '${lineIcon} ${lines}';
+        if (this.showAheadBehind) {
+            format += '{ ↑${ahead} ↓${behind}}{ ⇡${upstreamAhead} ⇣${upstreamBehind}}';
+        }
+        if (this.showFetchAge) {
+            format += '{ $(cloud-download) ${fetchAge}}';
+        }
+        if (this.showBranchStats) {
+            format += '{ (branch: +${branchAdd}/-${branchDel})}';
+        }
+        if (this.showWorkingChanges) {
+            format += '{ [local: +${localAdd}/-${localDel}]}';
+        }
+        return format;
+    }
+
+    private getTemplateValues(folderStats: FolderStats[]): TemplateValues {
+        return {
+            lineIcon: this.lineCountMode === 'code' ? '$(code)' : '$(file-text)',
+            ...buildTemplateValues(folderStats, this.lineCountMode)
+        };
+    }
+
+    private formatTooltip(folderStats: FolderStats[], gitFolders: FolderStats[], farBehind: FolderStats[]): string {
+        const totalLines = folderStats.reduce((sum, stats) => sum + stats.lineCountResult.totalLines, 0);
+        const breakdownTooltip = this.formatBreakdown(
+            folderStats.reduce((sum, stats) => sum + stats.lineCountResult.codeLines, 0),
+            folderStats.reduce((sum, stats) => sum + stats.lineCountResult.commentLines, 0),
+            folderStats.reduce((sum, stats) => sum + stats.lineCountResult.blankLines, 0)
+        );
+
+        if (gitFolders.length === 0) {
+            // Not a git repository
+            const tooltipLines = [`Total lines: ${totalLines.toLocaleString()}`, breakdownTooltip];
+            if (folderStats.length > 1) {
+                tooltipLines.push('', ...folderStats.map(stats => this.formatFolderTooltip(stats)));
             }
-            
-            // Working changes (uncommitted)
-            if (this.showWorkingChanges) {
-                const totalAdditions = gitStats.workingAdditions + gitStats.untrackedLines;
-                const totalDeletions = gitStats.workingDeletions;
-                
-                if (totalAdditions > 0 || totalDeletions > 0) {
-                    parts.push(`[local: +${totalAdditions}/-${totalDeletions}]`);
-                }
+            return tooltipLines.join('\n');
+        }
+
+        if (folderStats.length === 1) {
+            return this.formatFolderTooltip(folderStats[0], false);
+        }
+
+        const { branchAdditions, branchDeletions, workingAdditions, workingDeletions, untrackedLines, excludedChurn } =
+            sumChanges(gitFolders.map(stats => stats.gitStats));
+        const tooltipLines: string[] = [
+            `Workspace folders: ${folderStats.length}`,
+            `Total lines: ${totalLines.toLocaleString()} (${formatLineCount(totalLines)})`,
+            breakdownTooltip
+        ];
+
+        if (branchAdditions > 0 || branchDeletions > 0) {
+            tooltipLines.push(`Branch changes: +${branchAdditions}/-${branchDeletions}`);
+        }
+
+        if (workingAdditions > 0 || workingDeletions > 0) {
+            tooltipLines.push(`Staged/Unstaged: +${workingAdditions}/-${workingDeletions}`);
+        }
+
+        if (untrackedLines > 0) {
+            tooltipLines.push(`Untracked lines: ${untrackedLines}`);
+        }
+
+        if (excludedChurn > 0) {
+            tooltipLines.push(`Excluded churn: ${excludedChurn} lines`);
+        }
+
+        if (farBehind.length > 0) {
+            tooltipLines.push(`Far behind their base: ${farBehind.map(stats => stats.folder.name).join(', ')}`);
+        }
+
+        for (const stats of folderStats) {
+            tooltipLines.push('', this.formatFolderTooltip(stats));
+        }
+
+        return tooltipLines.join('\n');
+    }
+
+    private formatFolderTooltip(stats: FolderStats, includeName: boolean = true): string {
+        const { gitStats, lineCountResult } = stats;
+        const totalLines = lineCountResult.totalLines;
+        const breakdownTooltip = this.formatBreakdown(
+            lineCountResult.codeLines, lineCountResult.commentLines, lineCountResult.blankLines
+        );
+        const tooltipLines: string[] = [];
+
+        if (includeName) {
+            tooltipLines.push(`[${stats.folder.name}]`);
+        }
+
+        if (!gitStats) {
+            tooltipLines.push(`Total lines: ${totalLines.toLocaleString()}`, breakdownTooltip);
+            return tooltipLines.join('\n');
+        }
+
+        tooltipLines.push(
+            `Branch: ${gitStats.branch}`,
+            `Total lines: ${totalLines.toLocaleString()} (${formatLineCount(totalLines)})`,
+            breakdownTooltip
+        );
+
+        if (path.resolve(gitStats.repositoryRoot) !== path.resolve(stats.folder.uri.fsPath)) {
+            tooltipLines.push(`Repository: ${gitStats.repositoryRoot}`);
+        }
+
+        if (gitStats.mainWorktree) {
+            tooltipLines.push(`Linked worktree of ${gitStats.mainWorktree}`);
+        }
+
+        if (gitStats.branchAdditions > 0 || gitStats.branchDeletions > 0) {
+            tooltipLines.push(`Branch changes: +${gitStats.branchAdditions}/-${gitStats.branchDeletions}`);
+        }
+
+        if (gitStats.workingAdditions > 0 || gitStats.workingDeletions > 0) {
+            tooltipLines.push(`Staged/Unstaged: +${gitStats.workingAdditions}/-${gitStats.workingDeletions}`);
+        }
+
+        if (gitStats.untrackedLines > 0) {
+            tooltipLines.push(`Untracked lines: ${gitStats.untrackedLines}`);
+        }
+
+        const excludedChurn = gitStats.excludedBranchChurn + gitStats.excludedWorkingChurn;
+        if (excludedChurn > 0) {
+            tooltipLines.push(`Excluded churn: ${excludedChurn} lines (filtered files, not counted above)`);
+        }
+
+        if (gitStats.comparisonBase) {
+            tooltipLines.push(
+                `Compared to ${gitStats.comparisonBase}: ${gitStats.commitsAhead} ahead, ${gitStats.commitsBehind} behind`
+            );
+            if (gitStats.commitsBehind >= this.behindWarningThreshold) {
+                tooltipLines.push(`Warning: ${gitStats.commitsBehind} commits behind ${gitStats.comparisonBase}, consider rebasing`);
             }
-            
-            this.statusBarItem.text = parts.join(' ');
-            
-            // Build tooltip
-            const tooltipLines: string[] = [
-                `Branch: ${gitStats.branch}`,
-                `Total lines: ${totalLines.toLocaleString()} (${formattedLines})`
-            ];
-            
+        }
+
+        tooltipLines.push(...evaluateChangeBudgets(vscode.workspace.getConfiguration('gitStats', stats.folder.uri), gitStats).map(describeBudget));
+
+        if (gitStats.upstream) {
+            tooltipLines.push(
+                `Upstream ${gitStats.upstream}: ${gitStats.upstreamAhead} ahead, ${gitStats.upstreamBehind} behind`
+            );
+        }
+
+        tooltipLines.push(gitStats.lastFetchTime !== null
+            ? `Last fetch: ${getTimeAgo(new Date(gitStats.lastFetchTime))}`
+            : 'Last fetch: never');
+
+        if (stats.submodules.length > 0) {
+            tooltipLines.push(stats.submodulesInTotals ? 'Submodules (included in the totals):' : 'Submodules:');
+            tooltipLines.push(...stats.submodules.map(submodule => this.formatSubmodule(submodule)));
+        }
+
+        return tooltipLines.join('\n');
+    }
+
+    private formatSubmodule(submodule: SubmoduleStats): string {
+        const { gitStats, lineCountResult } = submodule;
+        const parts = [`${lineCountResult.totalLines.toLocaleString()} lines`];
+        if (gitStats) {
             if (!gitStats.isMainBranch && (gitStats.branchAdditions > 0 || gitStats.branchDeletions > 0)) {
-                tooltipLines.push(`Branch changes: +${gitStats.branchAdditions}/-${gitStats.branchDeletions}`);
-            }
-            
-            if (gitStats.workingAdditions > 0 || gitStats.workingDeletions > 0) {
-                tooltipLines.push(`Staged/Unstaged: +${gitStats.workingAdditions}/-${gitStats.workingDeletions}`);
+                parts.push(`branch +${gitStats.branchAdditions}/-${gitStats.branchDeletions}`);
             }
-            
-            if (gitStats.untrackedLines > 0) {
-                tooltipLines.push(`Untracked lines: ${gitStats.untrackedLines}`);
+            const localAdditions = gitStats.workingAdditions + gitStats.untrackedLines;
+            if (localAdditions > 0 || gitStats.workingDeletions > 0) {
+                parts.push(`local +${localAdditions}/-${gitStats.workingDeletions}`);
             }
-            
-            this.statusBarItem.tooltip = tooltipLines.join('\n');
         }
+        const branch = gitStats ? ` (${gitStats.branch})` : '';
+        return `  ${submodule.path}${branch}: ${parts.join(', ')}`;
+    }
+
+    private formatBreakdown(code: number, comment: number, blank: number): string {
+        return `Code: ${code.toLocaleString()}, Comments: ${comment.toLocaleString()}, Blank: ${blank.toLocaleString()}`;
+    }
+
+    private readConfiguration(): void {
+        const config = vscode.workspace.getConfiguration('gitStats');
+        this.showBranchStats = config.get<boolean>('showBranchStats', true);
+        this.showWorkingChanges = config.get<boolean>('showWorkingChanges', true);
+        this.lineCountMode = config.get<LineCountMode>('lineCountMode', 'total');
+        this.showAheadBehind = config.get<boolean>('showAheadBehind', true);
+        this.behindWarningThreshold = config.get<number>('behindWarningThreshold', 20);
+        this.showFetchAge = config.get<boolean>('showFetchAge', true);
+        this.statusBarFormat = config.get<string>('statusBarFormat', '');
+        this.tooltipFormat = config.get<string>('statusBarTooltipFormat', '');
+        this.alignment = config.get<'left' | 'right'>('statusBarAlignment', 'left') === 'right'
+            ? vscode.StatusBarAlignment.Right
+            : vscode.StatusBarAlignment.Left;
+        this.priority = config.get<number>('statusBarPriority', 100);
+    }
+
+    private createStatusBarItem(): vscode.StatusBarItem {
+        const item = vscode.window.createStatusBarItem(this.alignment, this.priority);
+        item.command = 'gitStats.showDetails';
+        return item;
     }
 
     public show(): void {
+        this.visible = true;
         this.statusBarItem.show();
     }
 
     public hide(): void {
+        this.visible = false;
         this.statusBarItem.hide();
     }
 
     public dispose(): void {
+        clearInterval(this.fetchAgeTimer);
         this.statusBarItem.dispose();
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,95 @@
+import { GitStats } from './gitManager';
+import { LineCountResult, formatLineCount } from './lineCounter';
+import { sumChanges } from './statsAggregator';
+
+export type TemplateValues = Record<string, string | number>;
+
+export type LineCountMode = 'total' | 'code';
+
+/** The statistics of one folder that template values are computed from */
+export interface TemplateSource {
+    gitStats: GitStats | null;
+    lineCountResult: LineCountResult;
+}
+
+/** `{...}` not preceded by `$`, containing tokens and plain text but no other braces */
+const segmentPattern = /(?<!\$)\{((?:\$\{\w+\}|[^{}])*)\}/g;
+const tokenPattern = /\$\{(\w+)\}/g;
+
+/**
+ * Expands `${token}` placeholders with the given values. Text wrapped in
+ * `{...}` is a conditional segment: it is dropped when every token inside it
+ * is zero or empty. Unknown tokens are left as written so typos stay visible.
+ */
+export function renderTemplate(template: string, values: TemplateValues): string {
+    const withSegments = template.replace(segmentPattern, (_, segment: string) => {
+        const tokens = Array.from(segment.matchAll(tokenPattern), match => match[1]);
+        const visible = tokens.length === 0 || tokens.some(token => isSet(values[token]));
+        return visible ? segment : '';
+    });
+
+    return withSegments.replace(tokenPattern, (placeholder, token: string) =>
+        token in values ? String(values[token]) : placeholder
+    );
+}
+
+/**
+ * Values of the template tokens, summed over the given folders. The status
+ * bar and the CLI both render their templates from these.
+ */
+export function buildTemplateValues(folders: TemplateSource[], lineCountMode: LineCountMode, now: number = Date.now()): TemplateValues {
+    const sum = (select: (source: TemplateSource) => number) =>
+        folders.reduce((total, source) => total + select(source), 0);
+    const gitStats = folders
+        .map(source => source.gitStats)
+        .filter((stats): stats is GitStats => stats !== null);
+    const totalLines = sum(source => source.lineCountResult.totalLines);
+    const codeLines = sum(source => source.lineCountResult.codeLines);
+    const changes = sumChanges(gitStats);
+    const fetchTimes = gitStats
+        .map(stats => stats.lastFetchTime)
+        .filter((time): time is number => time !== null);
+    const unique = (names: Array<string | null>) =>
+        Array.from(new Set(names.filter((name): name is string => !!name))).join(', ');
+    const sumGit = (select: (stats: GitStats) => number) =>
+        gitStats.reduce((total, stats) => total + select(stats), 0);
+
+    return {
+        lines: formatLineCount(lineCountMode === 'code' ? codeLines : totalLines),
+        totalLines: formatLineCount(totalLines),
+        codeLines: formatLineCount(codeLines),
+        commentLines: formatLineCount(sum(source => source.lineCountResult.commentLines)),
+        blankLines: formatLineCount(sum(source => source.lineCountResult.blankLines)),
+        files: sum(source => source.lineCountResult.fileCount),
+        folders: folders.length,
+        branch: unique(gitStats.map(stats => stats.branch)),
+        base: unique(gitStats.map(stats => stats.comparisonBase)),
+        branchAdd: changes.branchAdditions,
+        branchDel: changes.branchDeletions,
+        localAdd: changes.workingAdditions + changes.untrackedLines,
+        localDel: changes.workingDeletions,
+        untracked: changes.untrackedLines,
+        excludedChurn: changes.excludedChurn,
+        ahead: sumGit(stats => stats.commitsAhead),
+        behind: sumGit(stats => stats.commitsBehind),
+        upstreamAhead: sumGit(stats => stats.upstreamAhead),
+        upstreamBehind: sumGit(stats => stats.upstreamBehind),
+        fetchAge: fetchTimes.length > 0 ? formatAge(now - Math.min(...fetchTimes)) : ''
+    };
+}
+
+function isSet(value: string | number | undefined): boolean {
+    return value !== undefined && value !== 0 && value !== '' && value !== '0';
+}
+
+function formatAge(milliseconds: number): string {
+    const minutes = Math.max(0, Math.floor(milliseconds / 60000));
+    if (minutes < 60) {
+        return `${minutes}m`;
+    }
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) {
+        return `${hours}h`;
+    }
+    return `${Math.floor(hours / 24)}d`;
+}
@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import { buildActivityReport } from '../activity';
+import { AuthoredCommit } from '../gitManager';
+
+const hour = 60 * 60 * 1000;
+
+function commit(author: string, email: string, utc: number, utcOffset: number = 0): AuthoredCommit {
+    return { timestamp: utc, utcOffset, author, email };
+}
+
+// Wednesday 15 January 2025, noon UTC
+const now = Date.UTC(2025, 0, 15, 12);
+
+const commits = [
+    // Tuesday 9:30 in Tokyo, still Tuesday 0:30 in UTC
+    commit('Alice', 'alice@example.com', Date.UTC(2025, 0, 14, 0, 30), 9 * 60),
+    commit('Alice', 'ALICE@example.com', Date.UTC(2025, 0, 15, 10)),
+    // Monday 23:30 in New York, already Tuesday in UTC
+    commit('Alice', 'alice@example.com', Date.UTC(2025, 0, 14, 4, 30), -5 * 60),
+    commit('Bob', 'bob@example.com', Date.UTC(2025, 0, 10, 14)),
+    // Older than the weekly chart
+    commit('Bob', 'bob@example.com', Date.UTC(2023, 5, 1, 8))
+];
+
+suite('activity', () => {
+    test('places commits in the heatmap by the author\'s local weekday and hour', () => {
+        const report = buildActivityReport(commits, null, now);
+
+        assert.strictEqual(report.heatmap.length, 7);
+        assert.strictEqual(report.heatmap[1][9], 1);
+        assert.strictEqual(report.heatmap[2][10], 1);
+        assert.strictEqual(report.heatmap[0][23], 1);
+        assert.strictEqual(report.heatmap[4][14], 1);
+        assert.strictEqual(report.heatmap[3][8], 1);
+        assert.strictEqual(report.heatmap.flat().reduce((sum, count) => sum + count, 0), 5);
+    });
+
+    test('counts active days, streaks and authors', () => {
+        const report = buildActivityReport(commits, null, now);
+
+        assert.strictEqual(report.email, null);
+        assert.strictEqual(report.totalCommits, 5);
+        assert.strictEqual(report.activeDays, 5);
+        assert.deepStrictEqual(report.longestStreak, { days: 3, start: '2025-01-13', end: '2025-01-15' });
+        assert.strictEqual(report.currentStreak, 3);
+        assert.deepStrictEqual(report.authors, [
+            { author: 'Alice', email: 'alice@example.com', commits: 3 },
+            { author: 'Bob', email: 'bob@example.com', commits: 2 }
+        ]);
+    });
+
+    test('charts the commits of the last year per week starting on Monday', () => {
+        const report = buildActivityReport(commits, null, now);
+
+        assert.strictEqual(report.weekly.length, 52);
+        assert.deepStrictEqual(report.weekly.slice(-2), [
+            { week: '2025-01-06', commits: 1 },
+            { week: '2025-01-13', commits: 3 }
+        ]);
+        assert.strictEqual(report.weekly.reduce((sum, week) => sum + week.commits, 0), 4);
+    });
+
+    test('restricts the report to one author, whatever the case of the email', () => {
+        const report = buildActivityReport(commits, 'Alice@Example.com', now);
+
+        assert.strictEqual(report.totalCommits, 3);
+        assert.strictEqual(report.activeDays, 3);
+        // Every author stays listed for the filter
+        assert.strictEqual(report.authors.length, 2);
+
+        const bob = buildActivityReport(commits, 'bob@example.com', now);
+        assert.strictEqual(bob.currentStreak, 0);
+        assert.deepStrictEqual(bob.longestStreak, { days: 1, start: '2023-06-01', end: '2023-06-01' });
+    });
+
+    test('an empty history has no streak', () => {
+        const report = buildActivityReport([], null, now + 24 * hour);
+
+        assert.strictEqual(report.totalCommits, 0);
+        assert.strictEqual(report.longestStreak, null);
+        assert.strictEqual(report.currentStreak, 0);
+        assert.strictEqual(report.weekly.length, 52);
+    });
+});
@@ -0,0 +1,113 @@
+import * as assert from 'assert';
+import { describeBudget, evaluateChangeBudgets, worstBudgetLevel } from '../changeBudget';
+import { FileChange, GitStats } from '../gitManager';
+import { Settings } from '../settings';
+
+function settings(values: Record<string, unknown>): Settings {
+    return { get: <T>(key: string, defaultValue: T) => (key in values ? values[key] as T : defaultValue) };
+}
+
+function change(filePath: string, counts: Partial<FileChange>): FileChange {
+    return {
+        path: filePath,
+        stagedAdditions: 0,
+        stagedDeletions: 0,
+        unstagedAdditions: 0,
+        unstagedDeletions: 0,
+        untrackedLines: 0,
+        branchAdditions: 0,
+        branchDeletions: 0,
+        ...counts
+    };
+}
+
+function gitStats(files: FileChange[], excludedFiles: FileChange[] = [], isMainBranch: boolean = false): GitStats {
+    return {
+        branch: isMainBranch ? 'main' : 'feature',
+        branchAdditions: 0,
+        branchDeletions: 0,
+        workingAdditions: 0,
+        workingDeletions: 0,
+        untrackedLines: 0,
+        isMainBranch,
+        comparisonBase: isMainBranch ? null : 'main',
+        commitsAhead: 0,
+        commitsBehind: 0,
+        upstream: null,
+        upstreamAhead: 0,
+        upstreamBehind: 0,
+        lastFetchTime: null,
+        repositoryRoot: '/repo',
+        mainWorktree: null,
+        excludedBranchChurn: 0,
+        excludedWorkingChurn: 0,
+        files,
+        excludedFiles
+    };
+}
+
+const budgets = settings({
+    branchBudgetWarningLines: 100,
+    branchBudgetErrorLines: 200,
+    localBudgetWarningLines: 10,
+    localBudgetErrorLines: 0,
+    budgetExcludePatterns: ['**/package-lock.json']
+});
+
+suite('change budgets', () => {
+    test('sums branch and local churn per budget', () => {
+        const stats = gitStats([
+            change('src/a.ts', { branchAdditions: 90, branchDeletions: 30, stagedAdditions: 2, unstagedDeletions: 3 }),
+            change('src/b.ts', { untrackedLines: 4 })
+        ]);
+
+        const [branch, local] = evaluateChangeBudgets(budgets, stats);
+
+        assert.deepStrictEqual(branch, { kind: 'branch', lines: 120, warningLines: 100, errorLines: 200, level: 'warning' });
+        assert.deepStrictEqual(local, { kind: 'local', lines: 9, warningLines: 10, errorLines: 0, level: 'ok' });
+    });
+
+    test('counts files hidden by the line count filters but not the budget exclude patterns', () => {
+        const stats = gitStats(
+            [change('src/a.ts', { branchAdditions: 50 })],
+            [
+                change('docs/guide.md', { branchAdditions: 180, unstagedAdditions: 11 }),
+                change('package-lock.json', { branchAdditions: 5000, stagedAdditions: 5000 })
+            ]
+        );
+
+        const [branch, local] = evaluateChangeBudgets(budgets, stats);
+
+        assert.strictEqual(branch.lines, 230);
+        assert.strictEqual(branch.level, 'error');
+        assert.strictEqual(local.lines, 11);
+        assert.strictEqual(local.level, 'warning');
+    });
+
+    test('leaves out disabled budgets and the branch budget on a base branch', () => {
+        const localOnly = settings({ localBudgetErrorLines: 5 });
+        assert.deepStrictEqual(evaluateChangeBudgets(localOnly, gitStats([])).map(status => status.kind), ['local']);
+        assert.deepStrictEqual(evaluateChangeBudgets(settings({}), gitStats([])), []);
+        assert.deepStrictEqual(evaluateChangeBudgets(budgets, gitStats([], [], true)).map(status => status.kind), ['local']);
+        assert.deepStrictEqual(evaluateChangeBudgets(budgets, null), []);
+    });
+
+    test('keeps the branch budget on a base branch for rolled up submodule changes', () => {
+        const stats = gitStats([change('lib/core.ts', { branchAdditions: 150 })], [], true);
+
+        const [branch] = evaluateChangeBudgets(budgets, stats);
+
+        assert.strictEqual(branch.kind, 'branch');
+        assert.strictEqual(branch.lines, 150);
+    });
+
+    test('reports the most severe level and the budget in force', () => {
+        const stats = gitStats([change('src/a.ts', { branchAdditions: 250, stagedAdditions: 20 })]);
+        const statuses = evaluateChangeBudgets(budgets, stats);
+
+        assert.strictEqual(worstBudgetLevel(statuses), 'error');
+        assert.strictEqual(worstBudgetLevel([]), 'ok');
+        assert.strictEqual(describeBudget(statuses[0]), 'Branch budget: 250 of 200 changed lines (over budget)');
+        assert.strictEqual(describeBudget(statuses[1]), 'Local budget: 20 of 10 changed lines (over budget)');
+    });
+});
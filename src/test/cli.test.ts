@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+
+const scriptPath = path.join(__dirname, '..', '..', 'origins', 'git-prompt-stats.sh');
+const cliPath = path.join(__dirname, '..', 'cli.js');
+
+suite('git-stats CLI', function () {
+    this.timeout(30000);
+    let repository: string;
+    let env: NodeJS.ProcessEnv;
+
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: repository, env, encoding: 'utf8' });
+    const write = (file: string, content: string) => fs.writeFileSync(path.join(repository, file), content);
+
+    suiteSetup(function () {
+        if (process.platform === 'win32') {
+            this.skip();
+        }
+
+        const home = fs.mkdtempSync(path.join(os.tmpdir(), 'git-stats-home-'));
+        repository = fs.mkdtempSync(path.join(os.tmpdir(), 'git-stats-fixture-'));
+        // Isolated from the user's git and VS Code settings
+        /* eslint-disable @typescript-eslint/naming-convention */
+        env = {
+            ...process.env,
+            HOME: home,
+            XDG_CONFIG_HOME: path.join(home, '.config'),
+            GIT_CONFIG_NOSYSTEM: '1',
+            GIT_AUTHOR_NAME: 'Test',
+            GIT_AUTHOR_EMAIL: 'test@example.com',
+            GIT_COMMITTER_NAME: 'Test',
+            GIT_COMMITTER_EMAIL: 'test@example.com'
+        };
+        /* eslint-enable @typescript-eslint/naming-convention */
+
+        git('init', '-q', '-b', 'main');
+        write('app.ts', 'const a = 1;\nconst b = 2;\n\n// done\n');
+        write('README.md', '# Fixture\n\nText\n');
+        git('add', '.');
+        git('commit', '-q', '-m', 'Initial');
+
+        git('checkout', '-q', '-b', 'feature');
+        write('app.ts', 'const a = 1;\nconst b = 3;\n\n// done\nexport { a, b };\n');
+        write('lib.ts', 'export const c = 3;\n');
+        git('add', '.');
+        git('commit', '-q', '-m', 'Feature');
+
+        // Staged, unstaged and untracked changes, every file ending with a newline
+        write('lib.ts', 'export const c = 4;\nexport const d = 5;\n');
+        git('add', 'lib.ts');
+        write('README.md', '# Fixture\n\nMore text\n');
+        write('new.ts', 'export const e = 1;\nexport const f = 2;\n');
+        write('notes.md', 'one\ntwo\nthree\n');
+    });
+
+    suiteTeardown(() => {
+        if (repository) {
+            fs.rmSync(repository, { recursive: true, force: true });
+        }
+        if (env?.HOME) {
+            fs.rmSync(env.HOME, { recursive: true, force: true });
+        }
+    });
+
+    test('agrees with git-prompt-stats.sh on a fixture repository', () => {
+        const script = execFileSync('bash', ['-c', `source "${scriptPath}"; count_project_lines; get_branch_diff_stats; get_working_changes`], {
+            cwd: repository,
+            env,
+            encoding: 'utf8'
+        }).split('\n');
+        const [lines, branch, working] = script.map(line => line.trim());
+        const [branchAdditions, branchDeletions] = branch.slice(1).split('/-').map(Number);
+        const [workingAdditions, workingDeletions, untrackedLines] = working.split(':').map(Number);
+
+        const output = JSON.parse(execFileSync('node', [cliPath, '--json', '--no-cache', repository], { env, encoding: 'utf8' }));
+
+        assert.strictEqual(output.lines.total, Number(lines));
+        assert.strictEqual(output.gitStats.branchAdditions, branchAdditions);
+        assert.strictEqual(output.gitStats.branchDeletions, branchDeletions);
+        assert.strictEqual(output.gitStats.workingAdditions, workingAdditions);
+        assert.strictEqual(output.gitStats.workingDeletions, workingDeletions);
+        assert.strictEqual(output.gitStats.untrackedLines, untrackedLines);
+        assert.strictEqual(untrackedLines, 5);
+    });
+});
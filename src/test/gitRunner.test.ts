@@ -0,0 +1,137 @@
+import * as assert from 'assert';
+import { ChildProcessWithoutNullStreams, spawn } from 'child_process';
+import { CancellationToken, GitCancelledError, GitError, GitProcessRunner, GitSpawner } from '../gitRunner';
+
+/** Stand-in for `vscode.CancellationTokenSource` */
+class TokenSource {
+    private cancelled = false;
+    private listeners: Array<() => void> = [];
+
+    public readonly token: CancellationToken = {
+        isCancellationRequested: false,
+        onCancellationRequested: listener => {
+            this.listeners.push(listener);
+            return { dispose: () => { this.listeners = this.listeners.filter(candidate => candidate !== listener); } };
+        }
+    };
+
+    public cancel(): void {
+        if (!this.cancelled) {
+            this.cancelled = true;
+            (this.token as { isCancellationRequested: boolean }).isCancellationRequested = true;
+            [...this.listeners].forEach(listener => listener());
+        }
+    }
+}
+
+/** Spawns real git and keeps the processes, with the most ever running at once */
+class RecordingSpawner {
+    public readonly children: ChildProcessWithoutNullStreams[] = [];
+    public running = 0;
+    public peak = 0;
+
+    public readonly spawn: GitSpawner = (cwd, args) => {
+        const child = spawn('git', args, { cwd });
+        this.children.push(child);
+        this.running++;
+        this.peak = Math.max(this.peak, this.running);
+        child.on('exit', () => this.running--);
+        return child;
+    };
+}
+
+function exited(child: ChildProcessWithoutNullStreams): Promise<NodeJS.Signals | null> {
+    if (child.exitCode !== null || child.signalCode !== null) {
+        return Promise.resolve(child.signalCode);
+    }
+    return new Promise(resolve => child.on('exit', (_code, signal) => resolve(signal)));
+}
+
+/** Lets the runner spawn the queued processes */
+function tick(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 50));
+}
+
+// `git cat-file --batch` waits for object names on its standard input until it is closed
+const blocking = ['cat-file', '--batch'];
+
+suite('GitProcessRunner', function () {
+    this.timeout(10000);
+
+    test('runs no more processes at once than the limit', async () => {
+        const spawner = new RecordingSpawner();
+        const runner = new GitProcessRunner(1, spawner.spawn);
+
+        const versions = await Promise.all([1, 2, 3].map(() => runner.run(process.cwd(), ['--version'])));
+
+        assert.ok(versions.every(version => version.startsWith('git version')));
+        assert.strictEqual(spawner.children.length, 3);
+        assert.strictEqual(spawner.peak, 1);
+    });
+
+    test('cancelling a queued call rejects it without spawning', async () => {
+        const spawner = new RecordingSpawner();
+        const runner = new GitProcessRunner(1, spawner.spawn);
+        const first = new TokenSource();
+        const second = new TokenSource();
+
+        const running = runner.run(process.cwd(), blocking, { token: first.token });
+        const queued = runner.run(process.cwd(), ['--version'], { token: second.token });
+        await tick();
+        second.cancel();
+
+        await assert.rejects(queued, GitCancelledError);
+        assert.strictEqual(spawner.children.length, 1);
+
+        first.cancel();
+        await assert.rejects(running, GitCancelledError);
+        assert.strictEqual(await exited(spawner.children[0]), 'SIGTERM');
+        assert.strictEqual(spawner.children.length, 1);
+    });
+
+    test('kills the process once the timeout elapses', async () => {
+        const spawner = new RecordingSpawner();
+        const runner = new GitProcessRunner(1, spawner.spawn);
+
+        await assert.rejects(runner.run(process.cwd(), blocking, { timeout: 100 }), (error: Error) =>
+            error instanceof GitError && /timed out after 100ms/.test(error.message)
+        );
+        assert.strictEqual(await exited(spawner.children[0]), 'SIGTERM');
+    });
+
+    test('cancelling a stream stops the process', async function () {
+        if (process.platform === 'win32') {
+            this.skip();
+        }
+        // Prints a line, then keeps running until killed
+        const children: ChildProcessWithoutNullStreams[] = [];
+        const runner = new GitProcessRunner(1, () => {
+            children.push(spawn('sh', ['-c', 'echo first; exec sleep 5']));
+            return children[0];
+        });
+        const source = new TokenSource();
+        const lines: string[] = [];
+
+        const streaming = runner.stream(process.cwd(), ['log'], line => {
+            lines.push(line);
+            source.cancel();
+        }, { token: source.token });
+
+        await assert.rejects(streaming, GitCancelledError);
+        assert.deepStrictEqual(lines, ['first']);
+        assert.strictEqual(await exited(children[0]), 'SIGTERM');
+    });
+
+    test('settles when killed even if a child of git keeps the pipes open', async function () {
+        if (process.platform === 'win32') {
+            this.skip();
+        }
+        // A shell leaving a background process behind, like a shell alias could
+        const orphaning: GitSpawner = () => spawn('sh', ['-c', 'sleep 3 & wait']);
+        const runner = new GitProcessRunner(1, orphaning);
+        const started = Date.now();
+
+        await assert.rejects(runner.run(process.cwd(), ['alias'], { timeout: 100 }), GitError);
+        assert.ok(Date.now() - started < 1000, 'settled without waiting for the background process');
+    });
+});
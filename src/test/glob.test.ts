@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import { IgnoreMatcher, parseGlobPatterns, parseIgnoreFile } from '../glob';
+
+function matcher(patterns: string[], ignoreFile: string = ''): IgnoreMatcher {
+    return new IgnoreMatcher([...parseGlobPatterns(patterns), ...parseIgnoreFile(ignoreFile)]);
+}
+
+suite('glob', () => {
+    test('`*` stays within a segment and `**` spans segments', () => {
+        const ignore = matcher(['src/*.js', '**/*.min.*']);
+        assert.strictEqual(ignore.isIgnored('src/a.js'), true);
+        assert.strictEqual(ignore.isIgnored('src/lib/a.js'), false);
+        assert.strictEqual(ignore.isIgnored('a/b/c/app.min.css'), true);
+    });
+
+    test('braces and character classes', () => {
+        const ignore = matcher(['**/*.{ts,tsx}', 'log[0-9].txt']);
+        assert.strictEqual(ignore.isIgnored('a/b.tsx'), true);
+        assert.strictEqual(ignore.isIgnored('a/b.js'), false);
+        assert.strictEqual(ignore.isIgnored('log3.txt'), true);
+        assert.strictEqual(ignore.isIgnored('logx.txt'), false);
+    });
+
+    test('a trailing `/**` excludes the contents but not the directory', () => {
+        const ignore = matcher(['**/dist/**']);
+        assert.strictEqual(ignore.isIgnored('dist', true), false);
+        assert.strictEqual(ignore.isIgnored('dist/a.js'), true);
+        assert.strictEqual(ignore.isIgnored('dist/sub', true), true);
+        assert.strictEqual(ignore.isIgnored('pkg/dist/sub/a.js'), true);
+    });
+
+    test('`!` re-includes a file after `dir/**`', () => {
+        const ignore = matcher(['**/dist/**', '!**/dist/keep.js']);
+        assert.strictEqual(ignore.isIgnored('dist/keep.js'), false);
+        assert.strictEqual(ignore.isIgnored('dist/other.js'), true);
+    });
+
+    test('.gitstatsignore re-includes files excluded by the settings', () => {
+        const ignore = matcher(['**/dist/**'], '!dist/keep.js\n');
+        assert.strictEqual(ignore.isIgnored('dist/keep.js'), false);
+        assert.strictEqual(ignore.isIgnored('dist/other.js'), true);
+    });
+
+    test('nothing inside an excluded directory can be re-included', () => {
+        assert.strictEqual(matcher(['dist/', '!dist/keep.js']).isIgnored('dist/keep.js'), true);
+        assert.strictEqual(matcher(['**/dist/**', '!dist/sub/keep.js']).isIgnored('dist/sub/keep.js'), true);
+        // `!dist/` re-includes the directory, not the files matched by `dist/**`
+        assert.strictEqual(matcher(['dist/**'], '!dist/\n').isIgnored('dist/a.js'), true);
+    });
+
+    test('ignore file patterns without a slash match at any depth', () => {
+        const ignore = matcher([], '# generated\n*.pb.go\nbuild/\n/root.txt\n');
+        assert.strictEqual(ignore.isIgnored('a/b/c.pb.go'), true);
+        assert.strictEqual(ignore.isIgnored('pkg/build/out.js'), true);
+        assert.strictEqual(ignore.isIgnored('root.txt'), true);
+        assert.strictEqual(ignore.isIgnored('sub/root.txt'), false);
+    });
+
+    test('directory-only patterns do not match files', () => {
+        const ignore = matcher([], 'cache/\n');
+        assert.strictEqual(ignore.isIgnored('cache'), false);
+        assert.strictEqual(ignore.isIgnored('cache', true), true);
+    });
+
+    test('ignore file rules apply below their prefix', () => {
+        const ignore = new IgnoreMatcher(parseIgnoreFile('packages/app/gen/\n', 'packages/app/'));
+        assert.strictEqual(ignore.isIgnored('gen/a.ts'), true);
+        assert.strictEqual(ignore.isIgnored('src/a.ts'), false);
+    });
+});
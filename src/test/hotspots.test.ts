@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { buildHotspotReport } from '../hotspots';
+import { FileInfo, LineCountResult } from '../lineCounter';
+
+function file(relativePath: string, lines: number): FileInfo {
+    return {
+        path: relativePath.split('/').join(path.sep),
+        lines,
+        code: lines,
+        comment: 0,
+        blank: 0,
+        extension: path.extname(relativePath).slice(1),
+        language: 'TypeScript',
+        category: 'programming'
+    };
+}
+
+function lineCount(files: FileInfo[]): LineCountResult {
+    const totalLines = files.reduce((sum, entry) => sum + entry.lines, 0);
+    return { totalLines, codeLines: totalLines, commentLines: 0, blankLines: 0, fileCount: files.length, files };
+}
+
+suite('hotspots', () => {
+    const result = lineCount([
+        file('src/core/engine.ts', 400),
+        file('src/core/util.ts', 50),
+        file('src/cli.ts', 100),
+        file('README.md', 30),
+        file('src/unchanged.ts', 1000)
+    ]);
+    const changeFrequency = new Map([
+        ['src/core/engine.ts', 5],
+        ['src/core/util.ts', 10],
+        ['src/cli.ts', 2],
+        ['README.md', 20],
+        ['src/removed.ts', 50]
+    ]);
+
+    test('ranks files by commits times lines and leaves out unchanged ones', () => {
+        const report = buildHotspotReport(changeFrequency, result, 90, 10);
+
+        assert.strictEqual(report.windowDays, 90);
+        assert.deepStrictEqual(report.files, [
+            { path: 'src/core/engine.ts', commits: 5, lines: 400, score: 2000 },
+            { path: 'README.md', commits: 20, lines: 30, score: 600 },
+            { path: 'src/core/util.ts', commits: 10, lines: 50, score: 500 },
+            { path: 'src/cli.ts', commits: 2, lines: 100, score: 200 }
+        ]);
+    });
+
+    test('rolls the scores up into every enclosing directory', () => {
+        const report = buildHotspotReport(changeFrequency, result, 90, 10);
+
+        assert.deepStrictEqual(report.directories, [
+            { path: 'src', fileCount: 3, commits: 17, lines: 550, score: 2700 },
+            { path: 'src/core', fileCount: 2, commits: 15, lines: 450, score: 2500 }
+        ]);
+    });
+
+    test('keeps the highest scores up to the limit', () => {
+        const report = buildHotspotReport(changeFrequency, result, 90, 1);
+
+        assert.deepStrictEqual(report.files.map(hotspot => hotspot.path), ['src/core/engine.ts']);
+        assert.deepStrictEqual(report.directories.map(hotspot => hotspot.path), ['src']);
+    });
+});
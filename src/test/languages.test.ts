@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { LanguageRegistry, getExtension, parseShebang } from '../languages';
+
+suite('LanguageRegistry', () => {
+    test('parses the interpreter of a shebang line', () => {
+        assert.strictEqual(parseShebang('#!/bin/bash -e'), 'bash');
+        assert.strictEqual(parseShebang('#!/usr/bin/env python3'), 'python');
+        assert.strictEqual(parseShebang('#!/usr/bin/env -S node --no-warnings'), 'node');
+        assert.strictEqual(parseShebang('#!/usr/bin/env LANG=C perl5.36'), 'perl');
+        assert.strictEqual(parseShebang('# not a shebang'), null);
+        assert.strictEqual(parseShebang('#!'), null);
+    });
+
+    test('detects scripts by their shebang', () => {
+        const registry = new LanguageRegistry();
+
+        assert.strictEqual(registry.detectShebang('#!/usr/bin/env python3')?.name, 'Python');
+        assert.strictEqual(registry.detectShebang('#!/bin/sh')?.name, 'Shell');
+        assert.strictEqual(registry.detectShebang('#!/usr/bin/env ts-node')?.name, 'TypeScript');
+        assert.strictEqual(registry.detectShebang('#!/usr/bin/env unknown-tool'), null);
+        assert.strictEqual(registry.detectShebang('print("no shebang")'), null);
+    });
+
+    test('detects by file name before extension', () => {
+        const registry = new LanguageRegistry();
+
+        assert.strictEqual(registry.detect('docker/Dockerfile')?.name, 'Dockerfile');
+        assert.strictEqual(registry.detect('Jenkinsfile')?.name, 'Groovy');
+        assert.strictEqual(registry.detect('src/App.TSX')?.name, 'TypeScript');
+        assert.strictEqual(registry.detect('bin/tool'), null);
+    });
+
+    test('settings add languages and extend built-in ones', () => {
+        const registry = new LanguageRegistry({
+            python: { interpreters: ['pypy'] },
+            nix: { category: 'config', extensions: ['.nix'], interpreters: ['nix-shell'] },
+            jsonnet: { extensions: ['json'] }
+        });
+
+        assert.strictEqual(registry.detectShebang('#!/usr/bin/env pypy3')?.name, 'Python');
+        assert.strictEqual(registry.detect('default.nix')?.category, 'config');
+        assert.strictEqual(registry.detectInterpreter('nix-shell')?.name, 'nix');
+        // User definitions take over extensions of built-in languages
+        assert.strictEqual(registry.detect('data.json')?.name, 'jsonnet');
+    });
+
+    test('unknown files are grouped by extension', () => {
+        const registry = new LanguageRegistry();
+
+        assert.strictEqual(registry.unknown('a/b.xyz').name, '.xyz');
+        assert.strictEqual(registry.unknown('LICENSE').name, 'Other');
+        assert.strictEqual(getExtension('.bashrc'), '');
+        assert.ok(LanguageRegistry.matches(registry.detect('a.yml')!, ['data']));
+        assert.ok(!LanguageRegistry.matches(registry.detect('a.py')!, ['markup', 'TypeScript']));
+    });
+});
@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { classifyLines } from '../lineClassifier';
+import { LanguageRegistry } from '../languages';
+
+suite('classifyLines', () => {
+    test('counts code, comment and blank lines', () => {
+        const content = [
+            'import * as fs from \'fs\';',
+            '',
+            '// Reads the file',
+            'const a = 1; // trailing comment',
+            '/*',
+            ' * Block',
+            ' */',
+            '   ',
+            'export { a };'
+        ].join('\n');
+
+        assert.deepStrictEqual(classifyLines(content, 'src/a.ts'), { lines: 9, code: 3, comment: 4, blank: 2 });
+    });
+
+    test('a final newline adds no line and CRLF endings count once', () => {
+        assert.deepStrictEqual(classifyLines('a();\r\nb();\r\n', 'a.js'), { lines: 2, code: 2, comment: 0, blank: 0 });
+        assert.deepStrictEqual(classifyLines('', 'a.js'), { lines: 0, code: 0, comment: 0, blank: 0 });
+    });
+
+    test('comment markers inside strings are code', () => {
+        const content = [
+            'const url = "http://example.com";',
+            'const glob = \'/* not a comment */\';',
+            'const text = `',
+            '// still inside the template',
+            '`;'
+        ].join('\n');
+
+        assert.deepStrictEqual(classifyLines(content, 'a.ts'), { lines: 5, code: 5, comment: 0, blank: 0 });
+    });
+
+    test('nested block comments close at the matching terminator', () => {
+        const content = [
+            '/* outer',
+            '   /* inner */',
+            '   still a comment */',
+            'fn main() {}'
+        ].join('\n');
+
+        assert.deepStrictEqual(classifyLines(content, 'main.rs'), { lines: 4, code: 1, comment: 3, blank: 0 });
+        // Without nesting, the first terminator closes the comment
+        assert.deepStrictEqual(classifyLines(content, 'main.c'), { lines: 4, code: 2, comment: 2, blank: 0 });
+    });
+
+    test('docstrings opening a line are comments, other triple-quoted strings are code', () => {
+        const content = [
+            'def f():',
+            '    """Docstring',
+            '    spanning lines"""',
+            '    text = """value',
+            '    # inside the string"""',
+            '    # comment',
+            '    return text'
+        ].join('\n');
+
+        assert.deepStrictEqual(classifyLines(content, 'a.py'), { lines: 7, code: 4, comment: 3, blank: 0 });
+    });
+
+    test('hash comments only start at the beginning of a word', () => {
+        const content = [
+            '#!/bin/sh',
+            'echo $# ${#name}',
+            'echo done # done'
+        ].join('\n');
+
+        assert.deepStrictEqual(classifyLines(content, 'run.sh'), { lines: 3, code: 2, comment: 1, blank: 0 });
+    });
+
+    test('file names and languages without a known extension pick the comment syntax', () => {
+        assert.deepStrictEqual(classifyLines('# base image\nFROM node\n', 'Dockerfile'), { lines: 2, code: 1, comment: 1, blank: 0 });
+
+        const python = new LanguageRegistry().detectShebang('#!/usr/bin/env python3');
+        assert.ok(python);
+        assert.deepStrictEqual(classifyLines('#!/usr/bin/env python3\n"""Tool"""\nrun()\n', 'bin/tool', python), {
+            lines: 3, code: 1, comment: 2, blank: 0
+        });
+        // Unknown files are plain text
+        assert.deepStrictEqual(classifyLines('# heading\ntext\n', 'notes'), { lines: 2, code: 2, comment: 0, blank: 0 });
+    });
+});
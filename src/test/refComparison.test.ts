@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { FileInfo, LineCountResult } from '../lineCounter';
+import { buildRefComparison } from '../refComparison';
+
+function file(relativePath: string, language: string, lines: number): FileInfo {
+    return {
+        // Line counts use native separators, the diff forward slashes
+        path: relativePath.split('/').join(path.sep),
+        lines,
+        code: lines,
+        comment: 0,
+        blank: 0,
+        extension: path.extname(relativePath).slice(1),
+        language,
+        category: 'programming'
+    };
+}
+
+function lineCount(files: FileInfo[]): LineCountResult {
+    const totalLines = files.reduce((sum, entry) => sum + entry.lines, 0);
+    return { totalLines, codeLines: totalLines, commentLines: 0, blankLines: 0, fileCount: files.length, files };
+}
+
+suite('ref comparison', () => {
+    const comparison = buildRefComparison({
+        from: {
+            ref: 'v1.0',
+            commit: 'aaa',
+            lineCount: lineCount([
+                file('src/a.ts', 'TypeScript', 100),
+                file('src/old.ts', 'TypeScript', 20),
+                file('docs/guide.md', 'Markdown', 50),
+                file('README.md', 'Markdown', 10)
+            ])
+        },
+        to: {
+            ref: 'main',
+            commit: 'bbb',
+            lineCount: lineCount([
+                file('src/a.ts', 'TypeScript', 110),
+                file('src/new.py', 'Python', 30),
+                file('docs/guide.md', 'Markdown', 50),
+                file('README.md', 'Markdown', 12)
+            ])
+        },
+        notation: '...',
+        mergeBase: 'aaa',
+        divergence: { ahead: 4, behind: 1 },
+        diff: {
+            additions: 48,
+            deletions: 26,
+            excludedChurn: 7,
+            files: [
+                { path: 'README.md', additions: 3, deletions: 1 },
+                { path: 'logo.png', additions: 0, deletions: 0 },
+                { path: 'src/a.ts', additions: 15, deletions: 5 },
+                { path: 'src/new.py', additions: 30, deletions: 0 },
+                { path: 'src/old.ts', additions: 0, deletions: 20 }
+            ],
+            excludedFiles: []
+        },
+        languageOf: relativePath => (relativePath.endsWith('.png') ? 'Image' : 'Other')
+    });
+
+    test('summarizes both refs and the diff between them', () => {
+        assert.deepStrictEqual(comparison.from, { ref: 'v1.0', commit: 'aaa', lines: 180, code: 180, comment: 0, blank: 0, files: 4 });
+        assert.strictEqual(comparison.to.lines, 202);
+        assert.strictEqual(comparison.mergeBase, 'aaa');
+        assert.strictEqual(comparison.commitsAhead, 4);
+        assert.strictEqual(comparison.commitsBehind, 1);
+        assert.strictEqual(comparison.additions, 48);
+        assert.strictEqual(comparison.deletions, 26);
+        assert.strictEqual(comparison.excludedChurn, 7);
+    });
+
+    test('lists changed files by churn with their lines at each ref', () => {
+        assert.deepStrictEqual(comparison.files, [
+            { path: 'src/new.py', additions: 30, deletions: 0, linesFrom: null, linesTo: 30 },
+            { path: 'src/a.ts', additions: 15, deletions: 5, linesFrom: 100, linesTo: 110 },
+            { path: 'src/old.ts', additions: 0, deletions: 20, linesFrom: 20, linesTo: null },
+            { path: 'README.md', additions: 3, deletions: 1, linesFrom: 10, linesTo: 12 },
+            { path: 'logo.png', additions: 0, deletions: 0, linesFrom: null, linesTo: null }
+        ]);
+    });
+
+    test('groups by language, falling back to the path for files neither ref counted', () => {
+        assert.deepStrictEqual(comparison.languages, [
+            { name: 'TypeScript', changedFiles: 2, additions: 15, deletions: 25, linesFrom: 120, linesTo: 110 },
+            { name: 'Python', changedFiles: 1, additions: 30, deletions: 0, linesFrom: 0, linesTo: 30 },
+            { name: 'Markdown', changedFiles: 1, additions: 3, deletions: 1, linesFrom: 60, linesTo: 62 },
+            { name: 'Image', changedFiles: 1, additions: 0, deletions: 0, linesFrom: 0, linesTo: 0 }
+        ]);
+    });
+
+    test('groups by top-level directory and keeps unchanged ones for their totals', () => {
+        assert.deepStrictEqual(comparison.directories, [
+            { name: 'src', changedFiles: 3, additions: 45, deletions: 25, linesFrom: 120, linesTo: 140 },
+            { name: '.', changedFiles: 2, additions: 3, deletions: 1, linesFrom: 10, linesTo: 12 },
+            { name: 'docs', changedFiles: 0, additions: 0, deletions: 0, linesFrom: 50, linesTo: 50 }
+        ]);
+    });
+});
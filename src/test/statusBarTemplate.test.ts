@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import { GitStats } from '../gitManager';
+import { LineCountResult } from '../lineCounter';
+import { buildTemplateValues, renderTemplate } from '../statusBarTemplate';
+
+function lineCount(totalLines: number, codeLines: number, fileCount: number): LineCountResult {
+    return {
+        totalLines,
+        codeLines,
+        commentLines: 0,
+        blankLines: totalLines - codeLines,
+        fileCount,
+        files: []
+    };
+}
+
+function gitStats(overrides: Partial<GitStats>): GitStats {
+    return {
+        branch: 'feature',
+        branchAdditions: 0,
+        branchDeletions: 0,
+        workingAdditions: 0,
+        workingDeletions: 0,
+        untrackedLines: 0,
+        isMainBranch: false,
+        comparisonBase: 'main',
+        commitsAhead: 0,
+        commitsBehind: 0,
+        upstream: null,
+        upstreamAhead: 0,
+        upstreamBehind: 0,
+        lastFetchTime: null,
+        repositoryRoot: '/repo',
+        mainWorktree: null,
+        excludedBranchChurn: 0,
+        excludedWorkingChurn: 0,
+        files: [],
+        excludedFiles: [],
+        ...overrides
+    };
+}
+
+suite('status bar template', () => {
+    test('expands tokens and keeps unknown ones visible', () => {
+        assert.strictEqual(renderTemplate('${lines} lines on ${branch}', { lines: '1.2K', branch: 'main' }), '1.2K lines on main');
+        assert.strictEqual(renderTemplate('${lines} ${typo}', { lines: 3 }), '3 ${typo}');
+    });
+
+    test('drops conditional segments whose tokens are all zero or empty', () => {
+        const values = { branchAdd: 0, branchDel: 0, ahead: 2, behind: 0, base: '' };
+
+        assert.strictEqual(renderTemplate('A{ +${branchAdd}/-${branchDel}}', values), 'A');
+        assert.strictEqual(renderTemplate('B{ ↑${ahead} ↓${behind}}', values), 'B ↑2 ↓0');
+        assert.strictEqual(renderTemplate('C{ vs ${base}}', values), 'C');
+        assert.strictEqual(renderTemplate('D{ always}', values), 'D always');
+    });
+
+    test('sums the values of every folder', () => {
+        const now = Date.UTC(2025, 0, 1, 12);
+        const values = buildTemplateValues([
+            {
+                lineCountResult: lineCount(12000, 9000, 40),
+                gitStats: gitStats({
+                    branchAdditions: 10,
+                    branchDeletions: 4,
+                    workingAdditions: 3,
+                    untrackedLines: 5,
+                    commitsAhead: 2,
+                    lastFetchTime: now - 3 * 60 * 60 * 1000
+                })
+            },
+            {
+                lineCountResult: lineCount(500, 400, 5),
+                gitStats: gitStats({ branch: 'main', isMainBranch: true, comparisonBase: null, workingDeletions: 7, lastFetchTime: now - 60 * 1000 })
+            },
+            { lineCountResult: lineCount(100, 100, 1), gitStats: null }
+        ], 'code', now);
+
+        assert.strictEqual(values.lines, '9.50K');
+        assert.strictEqual(values.totalLines, '12.6K');
+        assert.strictEqual(values.files, 46);
+        assert.strictEqual(values.folders, 3);
+        assert.strictEqual(values.branch, 'feature, main');
+        assert.strictEqual(values.base, 'main');
+        assert.strictEqual(values.branchAdd, 10);
+        assert.strictEqual(values.branchDel, 4);
+        assert.strictEqual(values.localAdd, 8);
+        assert.strictEqual(values.localDel, 7);
+        assert.strictEqual(values.untracked, 5);
+        assert.strictEqual(values.ahead, 2);
+        // The oldest fetch of all folders
+        assert.strictEqual(values.fetchAge, '3h');
+    });
+
+    test('renders a format with conditional segments from collected values', () => {
+        const values = buildTemplateValues([
+            { lineCountResult: lineCount(800, 600, 10), gitStats: gitStats({ branchAdditions: 12, branchDeletions: 3 }) }
+        ], 'total');
+
+        assert.strictEqual(
+            renderTemplate('${lines}{ | +${branchAdd}/-${branchDel}}{ | local +${localAdd}/-${localDel}}{ | ${fetchAge}}', values),
+            '800 | +12/-3'
+        );
+    });
+});